@@ -7,7 +7,7 @@ import tseslint from 'typescript-eslint';
 export default tseslint.config(
   eslint.configs.recommended,
   tseslint.configs.recommended,
-  {ignores: ['dist']},
+  {ignores: ['dist', 'dist-cli']},
   {
     plugins: {
       'simple-import-sort': simpleImportSortPlugin,
@@ -0,0 +1,77 @@
+import {applyPalette, GIFEncoder, quantize} from 'gifenc';
+import * as UPNG from 'upng-js';
+
+import {ImageDataLike} from './PixelGrid';
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export const ANIMATION_FILE_EXTENSIONS: Record<AnimationFormat, string> = {
+  gif: 'gif',
+  apng: 'png',
+};
+
+/**
+ * Encodes a looping animation from equally sized frames, entirely in the
+ * browser
+ */
+export async function encodeAnimation(
+  frames: ImageDataLike[],
+  format: AnimationFormat,
+  frameDelayMs: number,
+): Promise<Blob> {
+  const [firstFrame] = frames;
+  if (!firstFrame) {
+    throw new Error('Cannot encode an animation without frames');
+  }
+
+  switch (format) {
+    case 'gif':
+      return encodeGif(frames, firstFrame, frameDelayMs);
+    case 'apng':
+      return encodeApng(frames, firstFrame, frameDelayMs);
+  }
+}
+
+function encodeGif(
+  frames: ImageDataLike[],
+  {width, height, data}: ImageDataLike,
+  frameDelayMs: number,
+): Blob {
+  // Every frame shares the same gradient colors, so one palette fits all of
+  // them and keeps colors from flickering between frames:
+  const palette = quantize(data, 256);
+
+  const gif = GIFEncoder();
+  for (const frame of frames) {
+    gif.writeFrame(applyPalette(frame.data, palette), width, height, {
+      palette,
+      delay: frameDelayMs,
+    });
+  }
+  gif.finish();
+
+  return new Blob([gif.bytes()], {type: 'image/gif'});
+}
+
+function encodeApng(
+  frames: ImageDataLike[],
+  {width, height}: ImageDataLike,
+  frameDelayMs: number,
+): Blob {
+  const png = UPNG.encode(
+    frames.map(
+      ({data}) =>
+        data.buffer.slice(
+          data.byteOffset,
+          data.byteOffset + data.byteLength,
+        ) as ArrayBuffer,
+    ),
+    width,
+    height,
+    // Lossless
+    0,
+    frames.map(() => frameDelayMs),
+  );
+
+  return new Blob([png], {type: 'image/apng'});
+}
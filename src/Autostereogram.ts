@@ -0,0 +1,414 @@
+import {ImageDataLike, PixelGrid} from './PixelGrid';
+
+/**
+ * A single-channel depth map with one value per pixel, where 0 is the far
+ * background and 1 is nearest to the viewer
+ */
+export type DepthMap = {
+  data: Float32Array;
+  width: number;
+  height: number;
+};
+
+/**
+ * - `left-to-right`: copies each pixel from one separation to its left, seeding
+ *   the first strip from the pattern. Fast, but errors accumulate toward the
+ *   right edge.
+ * - `symmetric`: links pixel pairs symmetrically around each point and skips
+ *   points hidden from either eye (Thimbleby, Inglis & Witten, 1994).
+ */
+export type StereogramAlgorithm = 'left-to-right' | 'symmetric';
+
+/**
+ * How the eyes are meant to fuse the image:
+ *
+ * - `divergent`: wall-eyed, looking through the image. The scene lies behind
+ *   it, and nearer points repeat at smaller separations.
+ * - `convergent`: cross-eyed, looking in front of the image. The scene floats
+ *   between it and the viewer, and nearer points repeat at larger separations.
+ *
+ * Viewing an image made for one method with the other turns its depth inside
+ * out.
+ */
+export type ViewingMethod = 'divergent' | 'convergent';
+
+export type AutostereogramOptions = {
+  /**
+   * The hidden image. RGBA sources (a `PixelGrid` or anything `ImageData`
+   * shaped) are read from their red channel.
+   */
+  depth: DepthMap | ImageDataLike | PixelGrid<ImageDataLike>;
+  /** The repeating pattern strip; it is tiled if smaller than the output */
+  pattern: ImageDataLike | PixelGrid<ImageDataLike>;
+  width: number;
+  height: number;
+  /**
+   * Separation of the far background, in pixels, which is also the width of the
+   * pattern's repeat
+   */
+  minDisparity: number;
+  /**
+   * The separation range, in pixels, covered between the far background and the
+   * nearest point is `maxDisparity - minDisparity`. Nearer points get smaller
+   * separations when viewed divergently, larger ones when viewed convergently.
+   */
+  maxDisparity: number;
+  disparityScale: number;
+  algorithm?: StereogramAlgorithm;
+  viewingMethod?: ViewingMethod;
+  /**
+   * How many samples to render per output pixel, horizontally. At 1, the fast
+   * path, separations snap to whole pixels, which shows as terracing on smooth
+   * surfaces. Higher factors allow fractional separations, interpolating depth
+   * and pattern between pixels, and average the samples back down.
+   */
+  oversampling?: number;
+  /** Called after each row with the number of rows finished so far */
+  onProgress?: (rowsDone: number) => void;
+};
+
+/**
+ * Renders an autostereogram from a depth map and a pattern strip. Free of any
+ * DOM dependencies so it can run in workers, Node scripts and tests.
+ */
+export function renderAutostereogram({
+  depth,
+  pattern,
+  width,
+  height,
+  minDisparity,
+  maxDisparity,
+  disparityScale,
+  algorithm = 'left-to-right',
+  viewingMethod = 'divergent',
+  oversampling = 1,
+  onProgress,
+}: AutostereogramOptions): ImageDataLike {
+  const depthValues = readDepth(depth, width, height);
+  const patternGrid = toPixelGrid(pattern);
+  const output = new PixelGrid({
+    data: new Uint8ClampedArray(width * height * 4),
+    width,
+    height,
+  });
+
+  const solve = algorithm === 'symmetric' ? renderSymmetric : renderLeftToRight;
+  const factor = Math.max(1, Math.round(oversampling));
+  if (factor > 1) {
+    renderOversampled(depthValues, patternGrid, output, solve, factor, {
+      minDisparity,
+      maxDisparity,
+      disparityScale,
+      viewingMethod,
+      onProgress,
+    });
+  } else {
+    solve(depthValues, patternGrid, output, {
+      minDisparity,
+      maxDisparity,
+      disparityScale,
+      viewingMethod,
+      onProgress,
+    });
+  }
+
+  return output.imageData;
+}
+
+type SolverOptions = Pick<
+  AutostereogramOptions,
+  'minDisparity' | 'maxDisparity' | 'disparityScale' | 'onProgress'
+> & {viewingMethod: ViewingMethod};
+
+type Solver = (
+  depthValues: Float32Array,
+  pattern: PixelGrid<ImageDataLike>,
+  output: PixelGrid<ImageDataLike>,
+  options: SolverOptions,
+) => void;
+
+/**
+ * Copies each pixel from one separation to its left, seeding the first strip
+ * from the pattern
+ */
+function renderLeftToRight(
+  depthValues: Float32Array,
+  pattern: PixelGrid<ImageDataLike>,
+  output: PixelGrid<ImageDataLike>,
+  {
+    minDisparity,
+    maxDisparity,
+    disparityScale,
+    viewingMethod,
+    onProgress,
+  }: SolverOptions,
+) {
+  const {width, height} = output;
+  const direction = viewingMethod === 'convergent' ? 1 : -1;
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const disparity = depthValues[y * width + x]!;
+      const offset = Math.floor(
+        disparity * (maxDisparity - minDisparity) * disparityScale,
+      );
+      const separation = Math.max(1, minDisparity + direction * offset);
+      if (x < Math.max(minDisparity, separation)) {
+        const patternX = (x - separation) % minDisparity;
+        output.set(
+          x,
+          y,
+          pattern.get(patternX < 0 ? patternX + minDisparity : patternX, y),
+        );
+      } else {
+        output.set(x, y, output.get(x - separation, y));
+      }
+    }
+    onProgress?.(y + 1);
+  }
+}
+
+/**
+ * Solves each row `factor` times wider than the output, then averages every
+ * `factor` samples into one output pixel. Depth and pattern are interpolated
+ * linearly between pixel centers, so that the wider row is smooth.
+ */
+function renderOversampled(
+  depthValues: Float32Array,
+  pattern: PixelGrid<ImageDataLike>,
+  output: PixelGrid<ImageDataLike>,
+  solve: Solver,
+  factor: number,
+  {
+    minDisparity,
+    maxDisparity,
+    disparityScale,
+    viewingMethod,
+    onProgress,
+  }: SolverOptions,
+) {
+  const {width, height} = output;
+  const wideWidth = width * factor;
+  const wideTileWidth = minDisparity * factor;
+  const wideDepth = new Float32Array(wideWidth);
+  const widePattern = createRow(wideTileWidth);
+  const wideOutput = createRow(wideWidth);
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < wideWidth; ++x) {
+      const u = Math.min(width - 1, Math.max(0, (x + 0.5) / factor - 0.5));
+      const left = Math.floor(u);
+      const right = Math.min(width - 1, left + 1);
+      const t = u - left;
+      const row = y * width;
+      wideDepth[x] =
+        depthValues[row + left]! * (1 - t) + depthValues[row + right]! * t;
+    }
+
+    // The pattern repeats every `minDisparity` pixels, so wrap around that
+    for (let x = 0; x < wideTileWidth; ++x) {
+      const u = (x + 0.5) / factor - 0.5;
+      const left = Math.floor(u);
+      const t = u - left;
+      const from = pattern.get((left + minDisparity) % minDisparity, y);
+      const to = pattern.get((left + 1) % minDisparity, y);
+      widePattern.set(x, 0, [
+        from[0] + (to[0] - from[0]) * t,
+        from[1] + (to[1] - from[1]) * t,
+        from[2] + (to[2] - from[2]) * t,
+        from[3] + (to[3] - from[3]) * t,
+      ]);
+    }
+
+    solve(wideDepth, widePattern, wideOutput, {
+      minDisparity: wideTileWidth,
+      maxDisparity: maxDisparity * factor,
+      disparityScale,
+      viewingMethod,
+    });
+
+    const samples = wideOutput.data;
+    for (let x = 0; x < width; ++x) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let i = x * factor * 4; i < (x + 1) * factor * 4; i += 4) {
+        r += samples[i]!;
+        g += samples[i + 1]!;
+        b += samples[i + 2]!;
+        a += samples[i + 3]!;
+      }
+      output.set(x, y, [r / factor, g / factor, b / factor, a / factor]);
+    }
+    onProgress?.(y + 1);
+  }
+}
+
+/** A single row of pixels to render into */
+function createRow(width: number): PixelGrid<ImageDataLike> {
+  return new PixelGrid({
+    data: new Uint8ClampedArray(width * 4),
+    width,
+    height: 1,
+  });
+}
+
+/**
+ * Constraint-based solver after Thimbleby, Inglis & Witten's "Displaying 3D
+ * Images: Algorithms for Single-Image Random-Dot Stereograms".
+ *
+ * Every visible point links the two pixels it projects to, centered on the
+ * point itself, so errors are spread evenly instead of piling up on one side.
+ * Pixels left unconstrained take their color from the pattern.
+ */
+function renderSymmetric(
+  depthValues: Float32Array,
+  pattern: PixelGrid<ImageDataLike>,
+  output: PixelGrid<ImageDataLike>,
+  {
+    minDisparity,
+    maxDisparity,
+    disparityScale,
+    viewingMethod,
+    onProgress,
+  }: SolverOptions,
+) {
+  const {width, height} = output;
+  const range = (maxDisparity - minDisparity) * disparityScale;
+  const convergent = viewingMethod === 'convergent';
+  const nearestSeparation = convergent
+    ? minDisparity + range
+    : Math.max(1, minDisparity - range);
+
+  // Either way, the far background's separation is half the distance between
+  // the eyes. Viewed divergently, it sits as far behind the screen as the eyes
+  // are in front of it; convergently, a third of the way from the screen to the
+  // eyes.
+  const eyeSeparation = 2 * minDisparity;
+
+  const separations = new Int32Array(width);
+  const same = new Int32Array(width);
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const disparity = depthValues[y * width + x]!;
+      separations[x] = convergent
+        ? Math.min(
+            nearestSeparation,
+            Math.round(minDisparity + disparity * range),
+          )
+        : Math.max(
+            nearestSeparation,
+            Math.round(minDisparity - disparity * range),
+          );
+      same[x] = x;
+    }
+
+    for (let x = 0; x < width; ++x) {
+      const separation = separations[x]!;
+      let left = x - (separation >> 1);
+      let right = left + separation;
+      if (left < 0 || right >= width) {
+        continue;
+      }
+
+      // Hidden-surface removal: walk along both lines of sight and give up on
+      // this point if anything nearer crosses either of them. `rayDepth` is the
+      // separation a surface would have where the rays pass over x ± t; nearer
+      // means smaller viewed divergently, and larger viewed convergently.
+      let visible = true;
+      let rayDepth = separation;
+      for (
+        let t = 1;
+        visible &&
+        (convergent
+          ? rayDepth < nearestSeparation
+          : rayDepth > nearestSeparation) &&
+        2 * t < eyeSeparation;
+        ++t
+      ) {
+        const perspective = 1 - (2 * t) / eyeSeparation;
+        if (convergent) {
+          rayDepth = (eyeSeparation + separation) / perspective - eyeSeparation;
+          visible =
+            (x - t < 0 || separations[x - t]! <= rayDepth) &&
+            (x + t >= width || separations[x + t]! <= rayDepth);
+        } else {
+          rayDepth = eyeSeparation - (eyeSeparation - separation) / perspective;
+          visible =
+            (x - t < 0 || separations[x - t]! >= rayDepth) &&
+            (x + t >= width || separations[x + t]! >= rayDepth);
+        }
+      }
+      if (!visible) {
+        continue;
+      }
+
+      // Record that `left` and `right` must match, keeping each chain of
+      // constraints sorted so that `same[k]` always points to the right:
+      let k = same[left]!;
+      while (k !== left && k !== right) {
+        if (k < right) {
+          left = k;
+        } else {
+          left = right;
+          right = k;
+        }
+        k = same[left]!;
+      }
+      same[left] = right;
+    }
+
+    for (let x = width - 1; x >= 0; --x) {
+      const linked = same[x]!;
+      if (linked === x) {
+        output.set(x, y, pattern.get(x % minDisparity, y));
+      } else {
+        output.set(x, y, output.get(linked, y));
+      }
+    }
+    onProgress?.(y + 1);
+  }
+}
+
+function toPixelGrid(
+  source: ImageDataLike | PixelGrid<ImageDataLike>,
+): PixelGrid<ImageDataLike> {
+  return source instanceof PixelGrid ? source : new PixelGrid(source);
+}
+
+function isDepthMap(depth: AutostereogramOptions['depth']): depth is DepthMap {
+  return depth.data instanceof Float32Array;
+}
+
+/**
+ * Reads any supported depth source into normalized values covering a `width` x
+ * `height` grid; sources of a different size are sampled with wrapping, like
+ * `PixelGrid.get`.
+ */
+function readDepth(
+  depth: AutostereogramOptions['depth'],
+  width: number,
+  height: number,
+): Float32Array {
+  const values = new Float32Array(width * height);
+
+  if (isDepthMap(depth)) {
+    const {data} = depth;
+    for (let y = 0; y < height; ++y) {
+      for (let x = 0; x < width; ++x) {
+        values[y * width + x] =
+          data[(y % depth.height) * depth.width + (x % depth.width)] ?? 0;
+      }
+    }
+    return values;
+  }
+
+  const grid = toPixelGrid(depth);
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      values[y * width + x] = grid.get(x, y)[0] / 255;
+    }
+  }
+  return values;
+}
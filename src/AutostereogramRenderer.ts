@@ -0,0 +1,109 @@
+import {AutostereogramOptions} from './Autostereogram';
+import type {
+  AutostereogramJob,
+  AutostereogramWorkerRequest,
+  AutostereogramWorkerResponse,
+} from './AutostereogramWorker';
+import {ImageDataLike, PixelGrid} from './PixelGrid';
+
+/**
+ * Renders autostereograms in a Web Worker, one job at a time. Starting a new
+ * job cancels the one in flight, so rapid setting changes always converge on
+ * the latest request.
+ */
+export class AutostereogramRenderer {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending: {
+    id: number;
+    resolve: (result: ImageDataLike | null) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  /**
+   * Resolves with the rendered image, or with `null` if the job was cancelled
+   * before it finished. Rejects if the worker fails.
+   */
+  render(
+    options: Omit<AutostereogramOptions, 'onProgress'>,
+    onProgress?: (rowsDone: number) => void,
+  ): Promise<ImageDataLike | null> {
+    this.cancel();
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    const job: AutostereogramJob = {
+      ...options,
+      depth: unwrap(options.depth),
+      pattern: unwrap(options.pattern),
+    };
+
+    return new Promise((resolve, reject) => {
+      this.pending = {id, resolve, reject};
+
+      worker.onmessage = ({
+        data,
+      }: MessageEvent<AutostereogramWorkerResponse>) => {
+        if (data.id !== this.pending?.id) {
+          return;
+        }
+        if (data.type === 'progress') {
+          onProgress?.(data.rowsDone);
+        } else {
+          this.pending = null;
+          resolve(data.result);
+        }
+      };
+
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.fail(new Error(event.message || 'The renderer failed to load'));
+      };
+      worker.onmessageerror = () => {
+        this.fail(new Error('The renderer sent back an unreadable result'));
+      };
+
+      worker.postMessage({id, job} satisfies AutostereogramWorkerRequest);
+    });
+  }
+
+  /**
+   * Cancels the job in flight, if any. The worker is busy in a tight loop and
+   * can't receive messages, so it is terminated and replaced on next use.
+   */
+  cancel() {
+    if (!this.pending) {
+      return;
+    }
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.resolve(null);
+    this.pending = null;
+  }
+
+  /**
+   * Rejects the job in flight and replaces the worker, which may be left in a
+   * broken state
+   */
+  private fail(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL('./AutostereogramWorker.ts', import.meta.url),
+        {type: 'module'},
+      );
+    }
+    return this.worker;
+  }
+}
+
+/** `PixelGrid` instances lose their prototype when posted, so send raw data */
+function unwrap<T extends object>(source: T | PixelGrid<ImageDataLike>) {
+  return source instanceof PixelGrid ? source.imageData : source;
+}
@@ -0,0 +1,51 @@
+import {
+  AutostereogramOptions,
+  DepthMap,
+  renderAutostereogram,
+} from './Autostereogram';
+import {ImageDataLike} from './PixelGrid';
+
+/** Render options as they cross the worker boundary */
+export type AutostereogramJob = Omit<
+  AutostereogramOptions,
+  'depth' | 'pattern' | 'onProgress'
+> & {
+  depth: DepthMap | ImageDataLike;
+  pattern: ImageDataLike;
+};
+
+export type AutostereogramWorkerRequest = {
+  id: number;
+  job: AutostereogramJob;
+};
+
+export type AutostereogramWorkerResponse =
+  | {id: number; type: 'progress'; rowsDone: number}
+  | {id: number; type: 'done'; result: ImageDataLike};
+
+self.addEventListener(
+  'message',
+  ({data: {id, job}}: MessageEvent<AutostereogramWorkerRequest>) => {
+    // Report progress in whole percent steps to avoid flooding the main thread
+    let lastPercent = -1;
+    const result = renderAutostereogram({
+      ...job,
+      onProgress: (rowsDone) => {
+        const percent = Math.floor((100 * rowsDone) / job.height);
+        if (percent !== lastPercent) {
+          lastPercent = percent;
+          respond({id, type: 'progress', rowsDone});
+        }
+      },
+    });
+
+    respond({id, type: 'done', result}, [result.data.buffer]);
+  },
+);
+
+function respond(
+  response: AutostereogramWorkerResponse,
+  transfer: Transferable[] = [],
+) {
+  self.postMessage(response, {transfer});
+}
@@ -0,0 +1,90 @@
+import {
+  BackgroundRemovalPipeline,
+  pipeline,
+  RawImage,
+} from '@huggingface/transformers';
+
+import {DepthMap} from './Autostereogram';
+import {resizeDepth} from './DepthBuffer';
+import {useModelPath} from './DepthEstimation';
+import {gaussianBlur} from './DepthProcessing';
+
+// A small portrait matting model known to work with transformers.js
+const BACKGROUND_REMOVAL_MODEL = 'Xenova/modnet';
+
+export type SubjectIsolation = {
+  /** How sure the model must be that a pixel is the subject, from 0 to 1 */
+  threshold: number;
+  /** How far the subject's edges fade into the background, in depth pixels */
+  feather: number;
+};
+
+let backgroundRemover: {
+  modelPath: string;
+  pipeline: Promise<BackgroundRemovalPipeline>;
+} | null = null;
+
+/**
+ * Finds the subject of a photo: a mask from 0 (background) to 1 (subject),
+ * resized to `width` by `height`. The model is loaded on first use, from
+ * `modelPath` like the depth model, or from the Hugging Face Hub if it's empty.
+ */
+export async function segmentSubject(
+  image: RawImage,
+  width: number,
+  height: number,
+  modelPath: string,
+): Promise<DepthMap> {
+  if (backgroundRemover?.modelPath !== modelPath) {
+    useModelPath(modelPath);
+    const loading = pipeline(
+      'background-removal',
+      BACKGROUND_REMOVAL_MODEL,
+    ) as unknown as Promise<BackgroundRemovalPipeline>;
+    const remover = {modelPath, pipeline: loading};
+    backgroundRemover = remover;
+
+    // Forget a failed load, so that the next call tries again
+    loading.catch(() => {
+      if (backgroundRemover === remover) {
+        backgroundRemover = null;
+      }
+    });
+  }
+  const [cutout] = await (await backgroundRemover.pipeline)(image);
+
+  // The mask is the alpha channel of the cut out subject
+  const alpha = new Float32Array(cutout!.width * cutout!.height);
+  for (let i = 0; i < alpha.length; ++i) {
+    alpha[i] = cutout!.data[i * 4 + 3]! / 255;
+  }
+  return resizeDepth(
+    {data: alpha, width: cutout!.width, height: cutout!.height},
+    width,
+    height,
+  );
+}
+
+/**
+ * Keeps the subject's depth and flattens everything else to `background`
+ */
+export function isolateSubject(
+  depth: DepthMap,
+  mask: DepthMap,
+  {threshold, feather}: SubjectIsolation,
+  background: number,
+): DepthMap {
+  const hardMask: DepthMap = {
+    data: mask.data.map((value) => (value >= threshold ? 1 : 0)),
+    width: mask.width,
+    height: mask.height,
+  };
+  const softMask = feather > 0 ? gaussianBlur(hardMask, feather) : hardMask;
+
+  const data = new Float32Array(depth.data.length);
+  for (let i = 0; i < data.length; ++i) {
+    const weight = softMask.data[i]!;
+    data[i] = depth.data[i]! * weight + background * (1 - weight);
+  }
+  return {data, width: depth.width, height: depth.height};
+}
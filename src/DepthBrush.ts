@@ -0,0 +1,332 @@
+import {DepthMap} from './Autostereogram';
+import {DepthPlacement, sampleDepth} from './DepthBuffer';
+
+export type DepthBrushTool =
+  | 'closer'
+  | 'farther'
+  | 'smooth'
+  | 'flatten'
+  | 'erase';
+
+export type DepthBrushSettings = {
+  tool: DepthBrushTool;
+  /** In depth pixels */
+  radius: number;
+  /** How much each dab changes the depth, from 0 to 1 */
+  strength: number;
+};
+
+/** A changed rectangle of offsets, for undo and redo */
+type Edit = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  before: Float32Array;
+  after: Float32Array;
+};
+
+type Stroke = {
+  before: Float32Array;
+  /** The depth where the stroke started, which flattening levels towards */
+  flattenTo: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+// How far pushing moves the depth per dab at full strength
+const PUSH_STEP = 0.05;
+
+const MAX_UNDO_STEPS = 50;
+
+/**
+ * Depth corrections painted with the brush. They're kept as offsets from the
+ * unedited depth, so they stay in place when the depth underneath is
+ * reprocessed.
+ */
+export class DepthEdits {
+  readonly width: number;
+  readonly height: number;
+  readonly offsets: Float32Array;
+  private undoStack: Edit[] = [];
+  private redoStack: Edit[] = [];
+  private stroke: Stroke | null = null;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.offsets = new Float32Array(width * height);
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  beginStroke(base: DepthMap, x: number, y: number) {
+    const index =
+      Math.round(Math.min(this.height - 1, Math.max(0, y))) * this.width +
+      Math.round(Math.min(this.width - 1, Math.max(0, x)));
+    this.stroke = {
+      before: this.offsets.slice(),
+      flattenTo: this.depthAt(base, index),
+      minX: Infinity,
+      minY: Infinity,
+      maxX: -Infinity,
+      maxY: -Infinity,
+    };
+  }
+
+  /**
+   * Applies the brush once, centered on (`x`, `y`). Strokes are made of many
+   * dabs along the pointer's path.
+   */
+  dab(
+    base: DepthMap,
+    x: number,
+    y: number,
+    {tool, radius, strength}: DepthBrushSettings,
+  ) {
+    const stroke = this.stroke;
+    if (!stroke) {
+      return;
+    }
+
+    const minX = Math.max(0, Math.floor(x - radius));
+    const minY = Math.max(0, Math.floor(y - radius));
+    const maxX = Math.min(this.width - 1, Math.ceil(x + radius));
+    const maxY = Math.min(this.height - 1, Math.ceil(y + radius));
+    if (minX > maxX || minY > maxY) {
+      return;
+    }
+    stroke.minX = Math.min(stroke.minX, minX);
+    stroke.minY = Math.min(stroke.minY, minY);
+    stroke.maxX = Math.max(stroke.maxX, maxX);
+    stroke.maxY = Math.max(stroke.maxY, maxY);
+
+    const averages =
+      tool === 'smooth'
+        ? this.localAverages(base, minX, minY, maxX, maxY, radius)
+        : null;
+
+    for (let py = minY; py <= maxY; py++) {
+      for (let px = minX; px <= maxX; px++) {
+        const distance = Math.hypot(px - x, py - y) / radius;
+        if (distance >= 1) {
+          continue;
+        }
+
+        // Soft edges, so that overlapping dabs blend into a smooth stroke
+        const weight = strength * (1 - distance * distance) ** 2;
+        const index = py * this.width + px;
+        const unedited = base.data[index]!;
+        const current = unedited + this.offsets[index]!;
+
+        let offset = this.offsets[index]!;
+        switch (tool) {
+          case 'closer':
+            offset += weight * PUSH_STEP;
+            break;
+          case 'farther':
+            offset -= weight * PUSH_STEP;
+            break;
+          case 'smooth': {
+            const average =
+              averages![(py - minY) * (maxX - minX + 1) + (px - minX)]!;
+            offset += (average - current) * weight;
+            break;
+          }
+          case 'flatten':
+            offset += (stroke.flattenTo - current) * weight;
+            break;
+          case 'erase':
+            offset *= 1 - weight;
+            break;
+        }
+
+        // Keep the edited depth in range
+        this.offsets[index] =
+          Math.min(1, Math.max(0, unedited + offset)) - unedited;
+      }
+    }
+  }
+
+  endStroke() {
+    const stroke = this.stroke;
+    this.stroke = null;
+    if (!stroke || stroke.minX > stroke.maxX) {
+      return;
+    }
+
+    const {minX: x, minY: y} = stroke;
+    const width = stroke.maxX - x + 1;
+    const height = stroke.maxY - y + 1;
+    this.pushEdit({
+      x,
+      y,
+      width,
+      height,
+      before: this.copyRegion(stroke.before, x, y, width, height),
+      after: this.copyRegion(this.offsets, x, y, width, height),
+    });
+  }
+
+  /**
+   * Removes all edits, as one step that can be undone
+   */
+  clear() {
+    const {width, height} = this;
+    this.pushEdit({
+      x: 0,
+      y: 0,
+      width,
+      height,
+      before: this.offsets.slice(),
+      after: new Float32Array(width * height),
+    });
+    this.offsets.fill(0);
+  }
+
+  undo(): boolean {
+    const edit = this.undoStack.pop();
+    if (!edit) {
+      return false;
+    }
+    this.pasteRegion(edit, edit.before);
+    this.redoStack.push(edit);
+    return true;
+  }
+
+  redo(): boolean {
+    const edit = this.redoStack.pop();
+    if (!edit) {
+      return false;
+    }
+    this.pasteRegion(edit, edit.after);
+    this.undoStack.push(edit);
+    return true;
+  }
+
+  /**
+   * The edits moved to a `width` x `height` output, where the depth they were
+   * painted on has gone from placement `from` to `to`. Parts of the output the
+   * old one didn't cover are left unedited, and the undo history stays behind.
+   */
+  resized(
+    width: number,
+    height: number,
+    from: DepthPlacement,
+    to: DepthPlacement,
+  ): DepthEdits {
+    const resized = new DepthEdits(width, height);
+    const offsets = {
+      data: this.offsets,
+      width: this.width,
+      height: this.height,
+    };
+    for (let y = 0; y < height; y++) {
+      const oldY = ((y + 0.5 - to.top) / to.scale) * from.scale + from.top;
+      if (oldY < 0 || oldY > this.height) {
+        continue;
+      }
+      for (let x = 0; x < width; x++) {
+        const oldX = ((x + 0.5 - to.left) / to.scale) * from.scale + from.left;
+        if (oldX < 0 || oldX > this.width) {
+          continue;
+        }
+        resized.offsets[y * width + x] = sampleDepth(
+          offsets,
+          oldX - 0.5,
+          oldY - 0.5,
+        );
+      }
+    }
+    return resized;
+  }
+
+  /**
+   * Writes the edited depth into `target`, which must be the same size as
+   * `base`
+   */
+  applyTo(base: DepthMap, target: DepthMap) {
+    for (let i = 0; i < this.offsets.length; i++) {
+      target.data[i] = Math.min(1, Math.max(0, this.depthAt(base, i)));
+    }
+  }
+
+  /** The edited depth of a pixel, from 0 to 1 */
+  private depthAt(base: DepthMap, index: number): number {
+    return base.data[index]! + this.offsets[index]!;
+  }
+
+  /**
+   * The edited depth averaged over a small window around each pixel of a
+   * rectangle
+   */
+  private localAverages(
+    base: DepthMap,
+    minX: number,
+    minY: number,
+    maxX: number,
+    maxY: number,
+    radius: number,
+  ): Float32Array {
+    const size = Math.max(1, Math.round(radius / 8));
+    const regionWidth = maxX - minX + 1;
+    const averages = new Float32Array(regionWidth * (maxY - minY + 1));
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        let sum = 0;
+        let count = 0;
+        for (let sy = y - size; sy <= y + size; sy++) {
+          for (let sx = x - size; sx <= x + size; sx++) {
+            if (sx >= 0 && sx < this.width && sy >= 0 && sy < this.height) {
+              sum += this.depthAt(base, sy * this.width + sx);
+              count++;
+            }
+          }
+        }
+        averages[(y - minY) * regionWidth + (x - minX)] = sum / count;
+      }
+    }
+
+    return averages;
+  }
+
+  private pushEdit(edit: Edit) {
+    this.undoStack.push(edit);
+    if (this.undoStack.length > MAX_UNDO_STEPS) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  private copyRegion(
+    source: Float32Array,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+  ): Float32Array {
+    const region = new Float32Array(width * height);
+    for (let row = 0; row < height; row++) {
+      const start = (y + row) * this.width + x;
+      region.set(source.subarray(start, start + width), row * width);
+    }
+    return region;
+  }
+
+  private pasteRegion({x, y, width, height}: Edit, region: Float32Array) {
+    for (let row = 0; row < height; row++) {
+      this.offsets.set(
+        region.subarray(row * width, (row + 1) * width),
+        (y + row) * this.width + x,
+      );
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import {DepthMap} from './Autostereogram';
+
+/**
+ * How the depth is fitted into the output:
+ *
+ * - `clamp`: fills the height, stretching the left and right edge columns out
+ *   to the sides and fading them into the distance
+ * - `cutout`: inset, on a near background, as if cut out of the screen
+ * - `popout`: inset, on a far background, so that it stands out
+ */
+export type DepthDisplayMode = 'clamp' | 'cutout' | 'popout';
+
+// How far back `clamp` fades the stretched edges, at the very sides
+const CLAMP_EDGE_FADE = 0x55 / 0xff;
+
+export function createDepthMap(
+  width: number,
+  height: number,
+  fill = 0,
+): DepthMap {
+  return {data: new Float32Array(width * height).fill(fill), width, height};
+}
+
+/**
+ * Resamples a depth map to `width` x `height` with bilinear interpolation
+ */
+export function resizeDepth(
+  map: DepthMap,
+  width: number,
+  height: number,
+): DepthMap {
+  const resized = createDepthMap(width, height);
+  const scaleX = map.width / width;
+  const scaleY = map.height / height;
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      resized.data[y * width + x] = sampleDepth(
+        map,
+        (x + 0.5) * scaleX - 0.5,
+        (y + 0.5) * scaleY - 0.5,
+      );
+    }
+  }
+  return resized;
+}
+
+/** Where a depth map sits in the output: its top left corner and scale */
+export type DepthPlacement = {left: number; top: number; scale: number};
+
+/**
+ * Where `placeDepth` puts a depth map, or an image of the same size, in an
+ * output `width` x `height`
+ */
+export function depthPlacement(
+  map: {width: number; height: number},
+  width: number,
+  height: number,
+  mode: DepthDisplayMode,
+): DepthPlacement {
+  // Pad relative to the largest 16:9 frame that fits, so that very wide outputs
+  // aren't over-padded:
+  const padding =
+    mode === 'clamp' ? 0 : Math.min(width, (height * 16) / 9) * 0.1;
+  const scale = Math.min(
+    (width - padding) / map.width,
+    (height - padding) / map.height,
+  );
+  return {
+    left: (width - map.width * scale) / 2,
+    top: (height - map.height * scale) / 2,
+    scale,
+  };
+}
+
+/**
+ * Fits a depth map into an output `width` x `height`, centered and keeping its
+ * aspect ratio, and fills the space around it according to `mode`
+ */
+export function placeDepth(
+  map: DepthMap,
+  width: number,
+  height: number,
+  mode: DepthDisplayMode,
+): DepthMap {
+  const {left, top, scale} = depthPlacement(map, width, height, mode);
+  const right = left + map.width * scale;
+  const bottom = top + map.height * scale;
+  const background = mode === 'cutout' ? 1 : 0;
+
+  const placed = createDepthMap(width, height, background);
+  for (let y = 0; y < height; ++y) {
+    const centerY = y + 0.5;
+    if (centerY < top || centerY >= bottom) {
+      continue;
+    }
+    const sourceY = (centerY - top) / scale - 0.5;
+
+    for (let x = 0; x < width; ++x) {
+      const centerX = x + 0.5;
+      const sourceX = (centerX - left) / scale - 0.5;
+
+      let fade = 1;
+      if (centerX < left || centerX >= right) {
+        if (mode !== 'clamp') {
+          continue;
+        }
+        fade =
+          centerX < left ? centerX / left : (width - centerX) / (width - right);
+        fade = CLAMP_EDGE_FADE + (1 - CLAMP_EDGE_FADE) * fade;
+      }
+
+      // Sampling clamps to the edges, which stretches the edge columns
+      placed.data[y * width + x] = sampleDepth(map, sourceX, sourceY) * fade;
+    }
+  }
+  return placed;
+}
+
+/**
+ * Draws a depth map as grayscale pixels, for previews
+ */
+export function depthMapToImageData({data, width, height}: DepthMap) {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; ++i) {
+    const gray = Math.round(Math.min(1, Math.max(0, data[i]!)) * 255);
+    pixels[i * 4 + 0] = gray;
+    pixels[i * 4 + 1] = gray;
+    pixels[i * 4 + 2] = gray;
+    pixels[i * 4 + 3] = 0xff;
+  }
+  return new ImageData(pixels, width, height);
+}
+
+/**
+ * The depth at (`x`, `y`), in pixels, interpolated between the four nearest
+ * pixels. Coordinates outside the map are clamped to its edges.
+ */
+export function sampleDepth(map: DepthMap, x: number, y: number): number {
+  const {data, width, height} = map;
+  x = Math.min(width - 1, Math.max(0, x));
+  y = Math.min(height - 1, Math.max(0, y));
+  const left = Math.floor(x);
+  const top = Math.floor(y);
+  const right = Math.min(width - 1, left + 1);
+  const bottom = Math.min(height - 1, top + 1);
+  const tx = x - left;
+  const ty = y - top;
+
+  const upper =
+    data[top * width + left]! * (1 - tx) + data[top * width + right]! * tx;
+  const lower =
+    data[bottom * width + left]! * (1 - tx) +
+    data[bottom * width + right]! * tx;
+  return upper * (1 - ty) + lower * ty;
+}
@@ -0,0 +1,138 @@
+import {
+  DepthEstimationPipeline,
+  env,
+  pipeline,
+  Tensor,
+} from '@huggingface/transformers';
+
+import {DepthMap} from './Autostereogram';
+
+// Depth estimation models known to work with transformers.js
+export const DEPTH_MODELS = [
+  {
+    name: 'Depth Anything V2 (small)',
+    id: 'onnx-community/depth-anything-v2-small',
+  },
+  {
+    name: 'Depth Anything V2 (base)',
+    id: 'onnx-community/depth-anything-v2-base',
+  },
+  {
+    name: 'Depth Anything V2 (large)',
+    id: 'onnx-community/depth-anything-v2-large',
+  },
+  {name: 'Depth Anything (small)', id: 'Xenova/depth-anything-small-hf'},
+  {name: 'DPT Hybrid MiDaS', id: 'Xenova/dpt-hybrid-midas'},
+  {name: 'DPT Large', id: 'Xenova/dpt-large'},
+] as const;
+
+export type DepthModelSettings = {
+  /** One of `DEPTH_MODELS`, or `'custom'` to use `customModel` */
+  model: (typeof DEPTH_MODELS)[number]['id'] | 'custom';
+  /** Any depth estimation model in the transformers.js format */
+  customModel: string;
+  device: 'auto' | 'wasm' | 'webgpu';
+  dtype: 'auto' | 'fp32' | 'fp16' | 'q8';
+  /**
+   * Where to load model weights from instead of the Hugging Face Hub: a URL or
+   * path on our own host, or a directory on disk when running in Node. The
+   * background removal model is loaded from here too.
+   */
+  modelPath: string;
+};
+
+let capabilities: Promise<{hasWebGPU: boolean; hasFp16: boolean}> | null = null;
+
+/**
+ * Detects WebGPU support once, including whether it can run fp16 shaders
+ */
+function detectCapabilities() {
+  capabilities ??= (async () => {
+    const hasWebGPU = typeof navigator !== 'undefined' && !!navigator.gpu;
+    if (!hasWebGPU) {
+      return {hasWebGPU, hasFp16: false};
+    }
+
+    try {
+      const adapter = await navigator.gpu.requestAdapter();
+      return {hasWebGPU, hasFp16: !!adapter?.features.has('shader-f16')};
+    } catch {
+      return {hasWebGPU, hasFp16: false};
+    }
+  })();
+  return capabilities;
+}
+
+/**
+ * A key that changes whenever the settings would load a different pipeline
+ */
+export function depthEstimatorKey(settings: DepthModelSettings): string {
+  return JSON.stringify(settings);
+}
+
+/**
+ * Points transformers.js at `modelPath` for the next pipeline it loads, or at
+ * the Hugging Face Hub if it's empty
+ */
+export function useModelPath(modelPath: string): void {
+  modelPath = modelPath.trim();
+  env.allowLocalModels = modelPath !== '';
+  env.allowRemoteModels = modelPath === '';
+  if (modelPath) {
+    env.localModelPath = modelPath.endsWith('/') ? modelPath : `${modelPath}/`;
+  }
+}
+
+/**
+ * Loads a depth estimation pipeline. `'auto'` settings prefer WebGPU, and fp16
+ * where the GPU supports it.
+ */
+export async function loadDepthEstimator(
+  settings: DepthModelSettings,
+): Promise<DepthEstimationPipeline> {
+  const {hasWebGPU, hasFp16} = await detectCapabilities();
+
+  useModelPath(settings.modelPath);
+
+  const device =
+    settings.device === 'auto'
+      ? hasWebGPU
+        ? 'webgpu'
+        : undefined
+      : settings.device;
+  const dtype =
+    settings.dtype === 'auto'
+      ? device === 'webgpu' && hasFp16
+        ? 'fp16'
+        : undefined
+      : settings.dtype;
+
+  return (await pipeline(
+    'depth-estimation',
+    settings.model === 'custom' ? settings.customModel.trim() : settings.model,
+    {dtype, device},
+  )) as unknown as DepthEstimationPipeline;
+}
+
+/**
+ * Normalizes a model's raw `predicted_depth` to a depth map from 0 (far) to 1
+ * (near). Unlike the pipeline's `depth` image, this keeps its full precision.
+ */
+export function predictionToDepthMap(prediction: Tensor): DepthMap {
+  const [height = 0, width = 0] = prediction.dims.slice(-2);
+  const values = prediction.data as Float32Array;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+
+  const range = max - min || 1;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; ++i) {
+    data[i] = (values[i]! - min) / range;
+  }
+  return {data, width, height};
+}
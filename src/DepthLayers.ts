@@ -0,0 +1,327 @@
+import {DepthMap} from './Autostereogram';
+
+export const DEPTH_SHAPES = ['rectangle', 'ellipse', 'star', 'heart'] as const;
+
+export type DepthShape = (typeof DEPTH_SHAPES)[number];
+
+type DepthLayerPlacement = {
+  /** Center, as a fraction of the output width */
+  x: number;
+  /** Center, as a fraction of the output height */
+  y: number;
+  /** From 0 (far) to 1 (near) */
+  depth: number;
+  /** Height, as a fraction of the output height */
+  size: number;
+};
+
+/**
+ * Something drawn flat at a single depth on top of the depth map, such as a
+ * hidden message
+ */
+export type DepthLayer = DepthLayerPlacement &
+  (
+    | {kind: 'text'; text: string; font: string}
+    | {
+        kind: 'shape';
+        shape: DepthShape;
+        /** Width over height */
+        aspect: number;
+      }
+    | {
+        kind: 'silhouette';
+        name: string;
+        /** Its opaque parts make up the silhouette */
+        image: HTMLCanvasElement | OffscreenCanvas | HTMLImageElement;
+      }
+  );
+
+type SilhouetteLayer = Extract<DepthLayer, {kind: 'silhouette'}>;
+
+/**
+ * A depth layer as saved in a project, with its silhouette image, if any, as a
+ * data URL
+ */
+export type SavedDepthLayer =
+  | Exclude<DepthLayer, SilhouetteLayer>
+  | (Omit<SilhouetteLayer, 'image'> & {image: string});
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+type Bounds = {x: number; y: number; width: number; height: number};
+
+export const DEPTH_LAYER_FONTS = {
+  Heavy:
+    '"Arial Black", "Helvetica Black", "Helvetica Neue", Helvetica, Arial, sans-serif',
+  Impact: 'Impact, "Arial Narrow Bold", sans-serif',
+  Serif: 'Georgia, "Times New Roman", serif',
+  Monospace: '"Courier New", Courier, monospace',
+} as const;
+
+/**
+ * A short description of a layer, for menus
+ */
+export function describeDepthLayer(layer: DepthLayer): string {
+  switch (layer.kind) {
+    case 'text':
+      return `Text "${layer.text}"`;
+    case 'shape':
+      return `Shape (${layer.shape})`;
+    case 'silhouette':
+      return `Silhouette (${layer.name})`;
+  }
+}
+
+/**
+ * Reads back a saved depth layer. Returns `undefined` for anything invalid,
+ * such as a layer from a hand-edited project, so that it can be left out.
+ */
+export function parseDepthLayer(value: unknown): SavedDepthLayer | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const layer = value as Record<string, unknown>;
+
+  // Layers may be dragged partly off the edges, so any position goes
+  const {x, y, depth, size} = layer;
+  if (
+    !isNumberIn(x, -Infinity, Infinity) ||
+    !isNumberIn(y, -Infinity, Infinity) ||
+    !isNumberIn(depth, 0, 1) ||
+    !isNumberIn(size, 0, 1)
+  ) {
+    return undefined;
+  }
+  const placement = {x, y, depth, size};
+
+  switch (layer.kind) {
+    case 'text': {
+      const {text, font} = layer;
+      return typeof text === 'string' &&
+        Object.values<unknown>(DEPTH_LAYER_FONTS).includes(font)
+        ? {...placement, kind: 'text', text, font: font as string}
+        : undefined;
+    }
+    case 'shape': {
+      const {shape, aspect} = layer;
+      return DEPTH_SHAPES.includes(shape as DepthShape) &&
+        isNumberIn(aspect, 0.2, 5)
+        ? {...placement, kind: 'shape', shape: shape as DepthShape, aspect}
+        : undefined;
+    }
+    case 'silhouette': {
+      const {name, image} = layer;
+      return typeof name === 'string' &&
+        typeof image === 'string' &&
+        image.startsWith('data:image/')
+        ? {...placement, kind: 'silhouette', name, image}
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isNumberIn(value: unknown, min: number, max: number): value is number {
+  return (
+    typeof value === 'number' &&
+    !Number.isNaN(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Draws the layers in order, each filled with the gray of its depth
+ */
+function drawDepthLayers(
+  ctx: Context2D,
+  layers: DepthLayer[],
+  width: number,
+  height: number,
+) {
+  for (const layer of layers) {
+    const gray = Math.round(Math.min(1, Math.max(0, layer.depth)) * 255);
+    const color = `rgb(${gray}, ${gray}, ${gray})`;
+    const bounds = depthLayerBounds(ctx, layer, width, height);
+
+    ctx.save();
+    ctx.fillStyle = color;
+
+    switch (layer.kind) {
+      case 'text':
+        ctx.font = textFont(layer, height);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(layer.text, layer.x * width, layer.y * height);
+        break;
+      case 'shape':
+        traceShape(ctx, layer.shape, bounds);
+        ctx.fill();
+        break;
+      case 'silhouette': {
+        // Tint the opaque parts of the image with the depth
+        const mask = new OffscreenCanvas(
+          Math.max(1, Math.round(bounds.width)),
+          Math.max(1, Math.round(bounds.height)),
+        );
+        const maskCtx = mask.getContext('2d')!;
+        maskCtx.drawImage(layer.image, 0, 0, mask.width, mask.height);
+        maskCtx.globalCompositeOperation = 'source-in';
+        maskCtx.fillStyle = color;
+        maskCtx.fillRect(0, 0, mask.width, mask.height);
+        ctx.drawImage(mask, bounds.x, bounds.y, bounds.width, bounds.height);
+        break;
+      }
+    }
+
+    ctx.restore();
+  }
+}
+
+/**
+ * Puts the layers on top of a depth map, in order. Each layer replaces the
+ * depth it covers with its own, blending only along its antialiased edges.
+ */
+export function applyDepthLayers(
+  depth: DepthMap,
+  layers: DepthLayer[],
+): DepthMap {
+  if (layers.length === 0) {
+    return depth;
+  }
+
+  const {width, height} = depth;
+  const data = depth.data.slice();
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+
+  // Layers are drawn one at a time, so that their coverage can be read from the
+  // alpha channel and their depth kept at full precision
+  for (const layer of layers) {
+    const layerDepth = Math.min(1, Math.max(0, layer.depth));
+    ctx.clearRect(0, 0, width, height);
+    drawDepthLayers(ctx, [layer], width, height);
+    const coverage = ctx.getImageData(0, 0, width, height).data;
+    for (let i = 0; i < data.length; ++i) {
+      const alpha = coverage[i * 4 + 3]! / 255;
+      if (alpha > 0) {
+        data[i] = data[i]! + (layerDepth - data[i]!) * alpha;
+      }
+    }
+  }
+
+  return {data, width, height};
+}
+
+/**
+ * The index of the topmost layer at (`x`, `y`), in output pixels, or -1
+ */
+export function depthLayerAt(
+  ctx: Context2D,
+  layers: DepthLayer[],
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+): number {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const bounds = depthLayerBounds(ctx, layers[i]!, width, height);
+    if (
+      x >= bounds.x &&
+      x <= bounds.x + bounds.width &&
+      y >= bounds.y &&
+      y <= bounds.y + bounds.height
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function textFont(
+  layer: Extract<DepthLayer, {kind: 'text'}>,
+  height: number,
+): string {
+  return `800 ${layer.size * height}px ${layer.font}`;
+}
+
+function depthLayerBounds(
+  ctx: Context2D,
+  layer: DepthLayer,
+  width: number,
+  height: number,
+): Bounds {
+  const layerHeight = layer.size * height;
+  let layerWidth: number;
+
+  switch (layer.kind) {
+    case 'text':
+      ctx.save();
+      ctx.font = textFont(layer, height);
+      layerWidth = ctx.measureText(layer.text).width;
+      ctx.restore();
+      break;
+    case 'shape':
+      layerWidth = layerHeight * layer.aspect;
+      break;
+    case 'silhouette':
+      layerWidth = (layerHeight * layer.image.width) / layer.image.height;
+      break;
+  }
+
+  return {
+    x: layer.x * width - layerWidth / 2,
+    y: layer.y * height - layerHeight / 2,
+    width: layerWidth,
+    height: layerHeight,
+  };
+}
+
+function traceShape(ctx: Context2D, shape: DepthShape, bounds: Bounds) {
+  const {x, y, width, height} = bounds;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+
+  ctx.beginPath();
+  switch (shape) {
+    case 'rectangle':
+      ctx.rect(x, y, width, height);
+      break;
+    case 'ellipse':
+      ctx.ellipse(centerX, centerY, width / 2, height / 2, 0, 0, 2 * Math.PI);
+      break;
+    case 'star':
+      // Five points, alternating between the outer and inner radius
+      for (let i = 0; i < 10; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+        const radius = i % 2 === 0 ? 1 : 0.4;
+        ctx.lineTo(
+          centerX + Math.cos(angle) * radius * (width / 2),
+          centerY + Math.sin(angle) * radius * (height / 2),
+        );
+      }
+      ctx.closePath();
+      break;
+    case 'heart':
+      ctx.moveTo(centerX, y + height);
+      ctx.bezierCurveTo(
+        x - width * 0.1,
+        y + height * 0.55,
+        x + width * 0.1,
+        y - height * 0.1,
+        centerX,
+        y + height * 0.25,
+      );
+      ctx.bezierCurveTo(
+        x + width * 0.9,
+        y - height * 0.1,
+        x + width * 1.1,
+        y + height * 0.55,
+        centerX,
+        y + height,
+      );
+      ctx.closePath();
+      break;
+  }
+}
@@ -0,0 +1,66 @@
+import {RawImage} from '@huggingface/transformers';
+import * as UPNG from 'upng-js';
+
+import {DepthMap} from './Autostereogram';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel for each PNG color type
+const PNG_CHANNELS: Record<number, number> = {0: 1, 2: 3, 4: 2, 6: 4};
+
+/**
+ * Decodes a depth map image, such as a Z pass rendered from Blender. 16-bit
+ * PNGs are decoded at their full precision; everything else is read as 8-bit.
+ * Color images are read from their red channel.
+ */
+export async function decodeDepthMapFile(file: Blob): Promise<DepthMap> {
+  const buffer = await file.arrayBuffer();
+  const header = new Uint8Array(buffer, 0, Math.min(8, buffer.byteLength));
+
+  if (PNG_SIGNATURE.every((byte, i) => header[i] === byte)) {
+    return decodePng(buffer);
+  }
+
+  const image = (await RawImage.fromBlob(file)).rgba();
+  const data = new Float32Array(image.width * image.height);
+  for (let i = 0; i < data.length; ++i) {
+    data[i] = image.data[i * 4]! / 255;
+  }
+  return {data, width: image.width, height: image.height};
+}
+
+function decodePng(buffer: ArrayBuffer): DepthMap {
+  const png = UPNG.decode(buffer);
+  const {width, height} = png;
+  const data = new Float32Array(width * height);
+  const channels = PNG_CHANNELS[png.ctype];
+
+  if (png.depth === 16 && channels) {
+    // Samples are stored big-endian, one row after another without padding.
+    // Despite its typings, `png.data` may be a `Uint8Array`, so copy it.
+    const samples = new DataView(new Uint8Array(png.data).buffer);
+    for (let i = 0; i < data.length; ++i) {
+      data[i] = samples.getUint16(i * channels * 2) / 0xffff;
+    }
+  } else {
+    const [rgba] = UPNG.toRGBA8(png);
+    const bytes = new Uint8Array(rgba!);
+    for (let i = 0; i < data.length; ++i) {
+      data[i] = bytes[i * 4]! / 255;
+    }
+  }
+
+  return {data, width, height};
+}
+
+/**
+ * Converts a depth map to a single-channel 8-bit image, to show it in place of
+ * a photo
+ */
+export function depthMapToRawImage({data, width, height}: DepthMap): RawImage {
+  const pixels = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < pixels.length; ++i) {
+    pixels[i] = Math.round(data[i]! * 255);
+  }
+  return new RawImage(pixels, width, height, 1);
+}
@@ -0,0 +1,183 @@
+import {DepthMap} from './Autostereogram';
+
+export type DepthSmoothing = 'none' | 'gaussian' | 'bilateral';
+
+/**
+ * Adjustments applied to a depth map before it's hidden, in this order:
+ * smoothing, levels, gamma, layers, invert
+ */
+export type DepthProcessing = {
+  smoothing: DepthSmoothing;
+  /** Smoothing radius, in depth map pixels */
+  smoothingRadius: number;
+  /**
+   * How different two depths may be and still get smoothed together by the
+   * bilateral filter, so that edges between objects stay sharp
+   */
+  edgeThreshold: number;
+  /** Depth that becomes the far plane; anything farther is clamped */
+  blackPoint: number;
+  /** Depth that becomes the near plane; anything nearer is clamped */
+  whitePoint: number;
+  /** Above 1 pulls middle depths nearer, below 1 pushes them away */
+  gamma: number;
+  /** Number of flat layers to snap the depth to, or 0 to keep it smooth */
+  layers: number;
+  invert: boolean;
+};
+
+export const DEFAULT_DEPTH_PROCESSING: DepthProcessing = {
+  smoothing: 'none',
+  smoothingRadius: 2,
+  edgeThreshold: 0.1,
+  blackPoint: 0,
+  whitePoint: 1,
+  gamma: 1,
+  layers: 0,
+  invert: false,
+};
+
+/**
+ * Applies the adjustments to a copy of the depth map
+ */
+export function processDepth(
+  map: DepthMap,
+  processing: DepthProcessing,
+): DepthMap {
+  const {blackPoint, whitePoint, gamma, layers, invert} = processing;
+
+  const smoothed =
+    processing.smoothing === 'gaussian'
+      ? gaussianBlur(map, processing.smoothingRadius)
+      : processing.smoothing === 'bilateral'
+        ? bilateralFilter(
+            map,
+            processing.smoothingRadius,
+            processing.edgeThreshold,
+          )
+        : map;
+
+  const data = new Float32Array(smoothed.data.length);
+  const range = Math.max(whitePoint - blackPoint, 1e-6);
+
+  for (let i = 0; i < data.length; i++) {
+    let value = Math.min(
+      1,
+      Math.max(0, (smoothed.data[i]! - blackPoint) / range),
+    );
+    value **= 1 / gamma;
+    if (layers >= 2) {
+      value = Math.min(layers - 1, Math.floor(value * layers)) / (layers - 1);
+    }
+    data[i] = invert ? 1 - value : value;
+  }
+
+  return {data, width: map.width, height: map.height};
+}
+
+/**
+ * Whether the adjustments leave every depth map unchanged
+ */
+export function isIdentityProcessing(processing: DepthProcessing): boolean {
+  return (
+    processing.smoothing === 'none' &&
+    processing.blackPoint === 0 &&
+    processing.whitePoint === 1 &&
+    processing.gamma === 1 &&
+    processing.layers < 2 &&
+    !processing.invert
+  );
+}
+
+function gaussianKernel(radius: number): Float32Array {
+  const sigma = Math.max(radius / 2, 0.5);
+  const size = Math.ceil(radius);
+  const kernel = new Float32Array(size * 2 + 1);
+  let sum = 0;
+  for (let i = -size; i <= size; i++) {
+    const weight = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + size] = weight;
+    sum += weight;
+  }
+  return kernel.map((weight) => weight / sum);
+}
+
+/**
+ * Blurs the depth in two passes, first horizontally then vertically. Edges are
+ * extended.
+ */
+export function gaussianBlur(
+  {data, width, height}: DepthMap,
+  radius: number,
+): DepthMap {
+  const kernel = gaussianKernel(radius);
+  const size = (kernel.length - 1) / 2;
+  const horizontal = new Float32Array(data.length);
+  const output = new Float32Array(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -size; k <= size; k++) {
+        const sampleX = Math.min(width - 1, Math.max(0, x + k));
+        sum += data[y * width + sampleX]! * kernel[k + size]!;
+      }
+      horizontal[y * width + x] = sum;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -size; k <= size; k++) {
+        const sampleY = Math.min(height - 1, Math.max(0, y + k));
+        sum += horizontal[sampleY * width + x]! * kernel[k + size]!;
+      }
+      output[y * width + x] = sum;
+    }
+  }
+
+  return {data: output, width, height};
+}
+
+/**
+ * Smooths the depth while keeping edges: neighbors only count as much as their
+ * depth is close to the center's
+ */
+function bilateralFilter(
+  {data, width, height}: DepthMap,
+  radius: number,
+  edgeThreshold: number,
+): DepthMap {
+  const size = Math.ceil(radius);
+  const spatialSigma = Math.max(radius / 2, 0.5);
+  const rangeSigma = Math.max(edgeThreshold, 1e-3);
+  const output = new Float32Array(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = data[y * width + x]!;
+      let sum = 0;
+      let totalWeight = 0;
+
+      for (let dy = -size; dy <= size; dy++) {
+        const sampleY = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -size; dx <= size; dx++) {
+          const sampleX = Math.min(width - 1, Math.max(0, x + dx));
+          const value = data[sampleY * width + sampleX]!;
+          const difference = value - center;
+          const weight = Math.exp(
+            -(dx * dx + dy * dy) / (2 * spatialSigma * spatialSigma) -
+              (difference * difference) / (2 * rangeSigma * rangeSigma),
+          );
+          sum += value * weight;
+          totalWeight += weight;
+        }
+      }
+
+      output[y * width + x] = sum / totalWeight;
+    }
+  }
+
+  return {data: output, width, height};
+}
@@ -0,0 +1,43 @@
+import {RawImage} from '@huggingface/transformers';
+import {Canvas, ImageData as NodeImageData} from '@napi-rs/canvas';
+
+import {ImageDataLike} from './PixelGrid';
+
+/**
+ * Provides the `OffscreenCanvas` and `ImageData` globals that the pattern and
+ * layout code draws with, backed by Skia, so that it runs unchanged in Node
+ */
+export function installCanvasGlobals() {
+  Object.assign(globalThis, {
+    OffscreenCanvas: Canvas,
+    ImageData: NodeImageData,
+  });
+}
+
+/**
+ * Copies an image onto a canvas, like `RawImage.toCanvas` does in browsers
+ */
+export function rawImageToCanvas(image: RawImage): OffscreenCanvas {
+  const {data, width, height} = image.clone().rgba();
+  const canvas = new OffscreenCanvas(width, height);
+  canvas
+    .getContext('2d')!
+    .putImageData(
+      new ImageData(new Uint8ClampedArray(data), width, height),
+      0,
+      0,
+    );
+  return canvas;
+}
+
+export async function encodePng({
+  data,
+  width,
+  height,
+}: ImageDataLike): Promise<Uint8Array> {
+  const canvas = new Canvas(width, height);
+  canvas
+    .getContext('2d')
+    .putImageData(new NodeImageData(data, width, height), 0, 0);
+  return canvas.encode('png');
+}
@@ -1,9 +1,18 @@
+import {
+  PatternContext,
+  PatternParameterSchema,
+  PatternParams,
+  registerPatternGenerator,
+} from './PatternRegistry';
+import {createRandom, Random} from './Random';
+
 /**
  * Creates a colorful gradient background with three color stops
  */
-function createGradient(
+export function createGradient(
   ctx: OffscreenCanvasRenderingContext2D,
   height: number,
+  random: Random,
   color1?: string,
   color2?: string,
   color3?: string,
@@ -17,10 +26,10 @@ function createGradient(
     gradient.addColorStop(1, color3);
   } else {
     // Generate random colors
-    const hue = Math.random() * 360;
-    const randomColor1 = `hsl(${hue}, ${80 + Math.random() * 20}%, 50%)`;
-    const randomColor2 = `hsl(${(hue + 120) % 360}, ${80 + Math.random() * 20}%, 90%)`;
-    const randomColor3 = `hsl(${(hue + 240) % 360}, ${80 + Math.random() * 20}%, 50%)`;
+    const hue = random() * 360;
+    const randomColor1 = `hsl(${hue}, ${80 + random() * 20}%, 50%)`;
+    const randomColor2 = `hsl(${(hue + 120) % 360}, ${80 + random() * 20}%, 90%)`;
+    const randomColor3 = `hsl(${(hue + 240) % 360}, ${80 + random() * 20}%, 50%)`;
 
     gradient.addColorStop(0, randomColor1);
     gradient.addColorStop(0.5, randomColor2);
@@ -30,11 +39,75 @@ function createGradient(
   return gradient;
 }
 
+// Convert HSL to hex color
+function hslToHex(h: number, s: number, l: number): string {
+  s /= 100;
+  l /= 100;
+
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  let r = 0,
+    g = 0,
+    b = 0;
+
+  if (0 <= h && h < 60) {
+    r = c;
+    g = x;
+    b = 0;
+  } else if (60 <= h && h < 120) {
+    r = x;
+    g = c;
+    b = 0;
+  } else if (120 <= h && h < 180) {
+    r = 0;
+    g = c;
+    b = x;
+  } else if (180 <= h && h < 240) {
+    r = 0;
+    g = x;
+    b = c;
+  } else if (240 <= h && h < 300) {
+    r = x;
+    g = 0;
+    b = c;
+  } else if (300 <= h && h < 360) {
+    r = c;
+    g = 0;
+    b = x;
+  }
+
+  const rHex = Math.round((r + m) * 255)
+    .toString(16)
+    .padStart(2, '0');
+  const gHex = Math.round((g + m) * 255)
+    .toString(16)
+    .padStart(2, '0');
+  const bHex = Math.round((b + m) * 255)
+    .toString(16)
+    .padStart(2, '0');
+
+  return `#${rHex}${gHex}${bHex}`;
+}
+
+// Generate random HSL colors with pleasingly spaced hues
+export function generateRandomGradientColors(random: Random = Math.random): {
+  color1: string;
+  color2: string;
+  color3: string;
+} {
+  const baseHue = random() * 360;
+  const color1 = hslToHex(baseHue, 70, 60);
+  const color2 = hslToHex((baseHue + 120) % 360, 80, 80);
+  const color3 = hslToHex((baseHue + 240) % 360, 70, 60);
+  return {color1, color2, color3};
+}
+
 /**
  * Runs the same draw commands for the original position and all wrapped
  * positions
  */
-function wrapped(
+export function wrapped(
   ctx: OffscreenCanvasRenderingContext2D,
   width: number,
   height: number,
@@ -89,85 +162,207 @@ function wrapped(
   ctx.restore();
 }
 
+/**
+ * Tints whatever was drawn so far with the colorful gradient, using the overlay
+ * blend mode
+ */
+export function overlayGradient(
+  ctx: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  random: Random,
+  gradientColors: PatternContext['gradientColors'],
+) {
+  ctx.globalCompositeOperation = 'overlay';
+  ctx.fillStyle = createGradient(ctx, height, random, ...gradientColors);
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+/**
+ * Fills the canvas with grayscale values from 0 to 1, computed per pixel
+ */
+export function fillGrayscale(
+  ctx: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  valueAt: (x: number, y: number) => number,
+) {
+  const imageData = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gray = Math.round(Math.min(1, Math.max(0, valueAt(x, y))) * 255);
+      const index = (y * width + x) * 4;
+      imageData.data[index + 0] = gray;
+      imageData.data[index + 1] = gray;
+      imageData.data[index + 2] = gray;
+      imageData.data[index + 3] = 0xff;
+    }
+  }
+  ctx.putImageData(imageData, 0, 0);
+}
+
+const noiseParameters = {
+  cellSize: {
+    type: 'number',
+    label: 'Cell size',
+    default: 8,
+    min: 1,
+    max: 64,
+    step: 1,
+  },
+  contrast: {
+    type: 'number',
+    label: 'Contrast',
+    default: 0.7,
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+} as const satisfies PatternParameterSchema;
+
+const confettiParameters = {
+  count: {
+    type: 'number',
+    label: 'Count',
+    default: 900,
+    min: 0,
+    max: 3000,
+    step: 1,
+  },
+  minRadius: {
+    type: 'number',
+    label: 'Min radius',
+    default: 4,
+    min: 1,
+    max: 64,
+    step: 0.5,
+  },
+  maxRadius: {
+    type: 'number',
+    label: 'Max radius',
+    default: 20,
+    min: 1,
+    max: 64,
+    step: 0.5,
+  },
+  shadow: {type: 'boolean', label: 'Shadow', default: true},
+} as const satisfies PatternParameterSchema;
+
+const sprinklesParameters = {
+  count: {
+    type: 'number',
+    label: 'Count',
+    default: 900,
+    min: 0,
+    max: 3000,
+    step: 1,
+  },
+  minLength: {
+    type: 'number',
+    label: 'Min length',
+    default: 8,
+    min: 1,
+    max: 128,
+    step: 1,
+  },
+  maxLength: {
+    type: 'number',
+    label: 'Max length',
+    default: 24,
+    min: 1,
+    max: 128,
+    step: 1,
+  },
+  minThickness: {
+    type: 'number',
+    label: 'Min thickness',
+    default: 2.25,
+    min: 0.5,
+    max: 32,
+    step: 0.25,
+  },
+  maxThickness: {
+    type: 'number',
+    label: 'Max thickness',
+    default: 9,
+    min: 0.5,
+    max: 32,
+    step: 0.25,
+  },
+  shadow: {type: 'boolean', label: 'Shadow', default: true},
+} as const satisfies PatternParameterSchema;
+
 /**
  * Generates a noise pattern with scaled-up random grayscale noise and colorful
  * gradient overlay
  */
-export function generateNoisePattern(
-  gradientColor1?: string,
-  gradientColor2?: string,
-  gradientColor3?: string,
-): HTMLCanvasElement {
-  const width = 256;
-  const height = 1024;
+function generateNoisePattern(
+  params: PatternParams<typeof noiseParameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors}: PatternContext,
+): OffscreenCanvas {
   const canvas = new OffscreenCanvas(width, height);
   const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+  const {cellSize: noiseSize, contrast} = params;
 
-  // Create grayscale noise first
-  const noiseSize = 8; // Size of each noise "pixel"
-  const noiseWidth = Math.ceil(width / noiseSize);
-  const noiseHeight = Math.ceil(height / noiseSize);
+  // Create grayscale noise first. A whole number of cells fits the pattern, so
+  // that it repeats without a seam; cell edges snap to whole pixels.
+  const noiseWidth = Math.max(1, Math.round(width / noiseSize));
+  const noiseHeight = Math.max(1, Math.round(height / noiseSize));
+  const cellEdgeX = (x: number) => Math.round((x * width) / noiseWidth);
+  const cellEdgeY = (y: number) => Math.round((y * height) / noiseHeight);
 
   // Generate random grayscale noise
   for (let y = 0; y < noiseHeight; y++) {
     for (let x = 0; x < noiseWidth; x++) {
-      const noiseValue = Math.random() * 0.7;
+      const noiseValue = random() * contrast;
       const gray = Math.floor(noiseValue * 255);
 
       ctx.fillStyle = `rgb(${gray}, ${gray}, ${gray})`;
-      ctx.fillRect(x * noiseSize, y * noiseSize, noiseSize, noiseSize);
+      ctx.fillRect(
+        cellEdgeX(x),
+        cellEdgeY(y),
+        cellEdgeX(x + 1) - cellEdgeX(x),
+        cellEdgeY(y + 1) - cellEdgeY(y),
+      );
     }
   }
 
   // Overlay colorful gradient using blend mode
-  ctx.globalCompositeOperation = 'overlay';
-  ctx.fillStyle = createGradient(
-    ctx,
-    height,
-    gradientColor1,
-    gradientColor2,
-    gradientColor3,
-  );
-  ctx.fillRect(0, 0, width, height);
-  ctx.globalCompositeOperation = 'source-over';
+  overlayGradient(ctx, width, height, random, gradientColors);
 
-  return canvas as unknown as HTMLCanvasElement;
+  return canvas;
 }
 
 /**
  * Generates a confetti pattern with random colored circles
  */
-export function generateConfettiPattern(
-  gradientColor1?: string,
-  gradientColor2?: string,
-  gradientColor3?: string,
-): HTMLCanvasElement {
-  const width = 256;
-  const height = 1024;
+function generateConfettiPattern(
+  params: PatternParams<typeof confettiParameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors, prefersDark}: PatternContext,
+): OffscreenCanvas {
   const canvas = new OffscreenCanvas(width, height);
   const ctx = canvas.getContext('2d')!;
-
-  // Check if user prefers dark scheme
-  const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+  const random = createRandom(seed);
+  const {count, minRadius, maxRadius, shadow} = params;
 
   // Create colorful gradient background with three random stops
-  ctx.fillStyle = createGradient(
-    ctx,
-    height,
-    gradientColor1,
-    gradientColor2,
-    gradientColor3,
-  );
+  ctx.fillStyle = createGradient(ctx, height, random, ...gradientColors);
   ctx.fillRect(0, 0, width, height);
 
-  // Generate ~600 random colored circles (doubled from 300)
-  for (let i = 0; i < 900; i++) {
-    const x = Math.random() * width;
-    const y = Math.random() * height;
-    const radius = 4 + Math.random() * 16; // 2-18px radius
-    const hue = Math.random() * 360;
-    const saturation = 50 + Math.random() * 50; // 50-100%
-    const lightness = 40 + Math.random() * 40; // 40-80%
+  // Generate random colored circles
+  for (let i = 0; i < count; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    const radius = minRadius + random() * (maxRadius - minRadius);
+    const hue = random() * 360;
+    const saturation = 50 + random() * 50; // 50-100%
+    const lightness = 40 + random() * 40; // 40-80%
 
     // Draw shadow first (darker, slightly offset)
     const shadowOffset = 2;
@@ -175,12 +370,14 @@ export function generateConfettiPattern(
       ? 'rgba(255, 255, 255, 0.1)'
       : 'rgba(0, 0, 0, 0.2)';
 
-    wrapped(ctx, width, height, (ctx) => {
-      ctx.fillStyle = shadowColor;
-      ctx.beginPath();
-      ctx.arc(x + shadowOffset, y + shadowOffset, radius, 0, 2 * Math.PI);
-      ctx.fill();
-    });
+    if (shadow) {
+      wrapped(ctx, width, height, (ctx) => {
+        ctx.fillStyle = shadowColor;
+        ctx.beginPath();
+        ctx.arc(x + shadowOffset, y + shadowOffset, radius, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+    }
 
     // Draw the main circle
     wrapped(ctx, width, height, (ctx) => {
@@ -191,47 +388,40 @@ export function generateConfettiPattern(
     });
   }
 
-  return canvas as unknown as HTMLCanvasElement;
+  return canvas;
 }
 
 /**
  * Generates a sprinkles pattern with random colored lines with circular end
  * caps
  */
-export function generateSprinklesPattern(
-  gradientColor1?: string,
-  gradientColor2?: string,
-  gradientColor3?: string,
-): HTMLCanvasElement {
-  const width = 256;
-  const height = 1024;
+function generateSprinklesPattern(
+  params: PatternParams<typeof sprinklesParameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors, prefersDark}: PatternContext,
+): OffscreenCanvas {
   const canvas = new OffscreenCanvas(width, height);
   const ctx = canvas.getContext('2d')!;
-
-  // Check if user prefers dark scheme
-  const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+  const random = createRandom(seed);
+  const {count, minLength, maxLength, minThickness, maxThickness, shadow} =
+    params;
 
   // Create colorful gradient background with three random stops
-  ctx.fillStyle = createGradient(
-    ctx,
-    height,
-    gradientColor1,
-    gradientColor2,
-    gradientColor3,
-  );
+  ctx.fillStyle = createGradient(ctx, height, random, ...gradientColors);
   ctx.fillRect(0, 0, width, height);
 
-  for (let i = 0; i < 900; i++) {
-    const x1 = Math.random() * width;
-    const y1 = Math.random() * height;
-    const length = 8 + Math.random() * 16;
-    const angle = Math.random() * 2 * Math.PI;
+  for (let i = 0; i < count; i++) {
+    const x1 = random() * width;
+    const y1 = random() * height;
+    const length = minLength + random() * (maxLength - minLength);
+    const angle = random() * 2 * Math.PI;
     const x2 = x1 + Math.cos(angle) * length;
     const y2 = y1 + Math.sin(angle) * length;
-    const thickness = (1.5 + Math.random() * 4.5) * 1.5;
-    const hue = Math.random() * 360;
-    const saturation = 50 + Math.random() * 50;
-    const lightness = 40 + Math.random() * 40;
+    const thickness = minThickness + random() * (maxThickness - minThickness);
+    const hue = random() * 360;
+    const saturation = 50 + random() * 50;
+    const lightness = 40 + random() * 40;
 
     // Draw shadow first (darker, slightly offset)
     const shadowOffset = 2;
@@ -239,15 +429,17 @@ export function generateSprinklesPattern(
       ? 'rgba(255, 255, 255, 0.1)'
       : 'rgba(0, 0, 0, 0.2)';
 
-    wrapped(ctx, width, height, (ctx) => {
-      ctx.strokeStyle = shadowColor;
-      ctx.lineWidth = thickness;
-      ctx.lineCap = 'round';
-      ctx.beginPath();
-      ctx.moveTo(x1 + shadowOffset, y1 + shadowOffset);
-      ctx.lineTo(x2 + shadowOffset, y2 + shadowOffset);
-      ctx.stroke();
-    });
+    if (shadow) {
+      wrapped(ctx, width, height, (ctx) => {
+        ctx.strokeStyle = shadowColor;
+        ctx.lineWidth = thickness;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(x1 + shadowOffset, y1 + shadowOffset);
+        ctx.lineTo(x2 + shadowOffset, y2 + shadowOffset);
+        ctx.stroke();
+      });
+    }
 
     // Draw the main line
     wrapped(ctx, width, height, (ctx) => {
@@ -261,5 +453,29 @@ export function generateSprinklesPattern(
     });
   }
 
-  return canvas as unknown as HTMLCanvasElement;
+  return canvas;
 }
+
+registerPatternGenerator({
+  id: 'noise',
+  label: 'Noise',
+  usesGradient: true,
+  parameters: noiseParameters,
+  generate: generateNoisePattern,
+});
+
+registerPatternGenerator({
+  id: 'confetti',
+  label: 'Confetti',
+  usesGradient: true,
+  parameters: confettiParameters,
+  generate: generateConfettiPattern,
+});
+
+registerPatternGenerator({
+  id: 'sprinkles',
+  label: 'Sprinkles',
+  usesGradient: true,
+  parameters: sprinklesParameters,
+  generate: generateSprinklesPattern,
+});
@@ -0,0 +1,130 @@
+/**
+ * Describes one tunable parameter of a pattern generator, so that controls can
+ * be built for it without knowing the generator
+ */
+export type PatternParameter =
+  | {
+      type: 'number';
+      label: string;
+      default: number;
+      min: number;
+      max: number;
+      step: number;
+    }
+  | {type: 'boolean'; label: string; default: boolean}
+  | {type: 'string'; label: string; default: string};
+
+export type PatternParameterSchema = Record<string, PatternParameter>;
+
+export type PatternParameterValue = PatternParameter['default'];
+
+type ParameterValue<P extends PatternParameter> = P extends {type: 'number'}
+  ? number
+  : P extends {type: 'boolean'}
+    ? boolean
+    : string;
+
+/** Parameter values matching a schema */
+export type PatternParams<S extends PatternParameterSchema> = {
+  [K in keyof S]: ParameterValue<S[K]>;
+};
+
+/** Everything a generator may draw upon besides its own parameters */
+export type PatternContext = {
+  gradientColors: [string, string, string];
+  prefersDark: boolean;
+  /**
+   * The photo the depth was estimated from, if there is one. Only called by
+   * generators that draw on it, since copying a full-size photo isn't free.
+   */
+  getSourceImage(): HTMLCanvasElement | OffscreenCanvas | null;
+};
+
+export type PatternGenerator<
+  S extends PatternParameterSchema = PatternParameterSchema,
+> = {
+  /** Stable identifier, used in saved settings */
+  id: string;
+  /** Name shown in the Pattern menu */
+  label: string;
+  /** Whether the pattern is tinted by the gradient colors */
+  usesGradient: boolean;
+  parameters: S;
+  /**
+   * Draws a pattern tile that repeats seamlessly. The same parameters, seed and
+   * size must always produce the same image.
+   */
+  generate(
+    params: PatternParams<S>,
+    seed: number,
+    size: {width: number; height: number},
+    context: PatternContext,
+  ): HTMLCanvasElement | OffscreenCanvas;
+};
+
+const registry = new Map<string, PatternGenerator>();
+
+/**
+ * Makes a pattern generator available to the app. Registering a generator with
+ * an existing `id` replaces it.
+ */
+export function registerPatternGenerator<S extends PatternParameterSchema>(
+  generator: PatternGenerator<S>,
+): void {
+  registry.set(generator.id, generator as unknown as PatternGenerator);
+}
+
+export function getPatternGenerator(id: string): PatternGenerator | undefined {
+  return registry.get(id);
+}
+
+/** All registered generators, in registration order */
+export function getPatternGenerators(): PatternGenerator[] {
+  return [...registry.values()];
+}
+
+/**
+ * The default value of every parameter in a generator's schema
+ */
+export function defaultPatternParams(
+  generator: PatternGenerator,
+): Record<string, PatternParameterValue> {
+  return Object.fromEntries(
+    Object.entries(generator.parameters).map(([key, parameter]) => [
+      key,
+      parameter.default,
+    ]),
+  );
+}
+
+/**
+ * The valid values among saved parameters for a generator, such as a project's.
+ * Unknown parameters, values of the wrong type and numbers out of range are
+ * left out.
+ */
+export function readPatternParams(
+  generator: PatternGenerator,
+  saved: unknown,
+): Record<string, PatternParameterValue> {
+  const params: Record<string, PatternParameterValue> = {};
+  if (typeof saved !== 'object' || saved === null) {
+    return params;
+  }
+
+  for (const [key, parameter] of Object.entries(generator.parameters)) {
+    const value = (saved as Record<string, unknown>)[key];
+    if (typeof value !== typeof parameter.default) {
+      continue;
+    }
+    if (
+      parameter.type === 'number' &&
+      !(
+        (value as number) >= parameter.min && (value as number) <= parameter.max
+      )
+    ) {
+      continue;
+    }
+    params[key] = value as PatternParameterValue;
+  }
+  return params;
+}
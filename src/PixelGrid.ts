@@ -1,8 +1,18 @@
 type Pixel = [number, number, number, number];
 
-export class PixelGrid {
-  imageData: ImageData;
-  constructor(imageData: ImageData) {
+/**
+ * Anything shaped like an `ImageData`: RGBA bytes plus dimensions. Lets pixel
+ * code run outside the browser, where `ImageData` may not exist.
+ */
+export type ImageDataLike = {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+};
+
+export class PixelGrid<T extends ImageDataLike = ImageData> {
+  imageData: T;
+  constructor(imageData: T) {
     this.imageData = imageData;
   }
   get data() {
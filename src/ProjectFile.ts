@@ -0,0 +1,118 @@
+import {DepthMap} from './Autostereogram';
+
+const PROJECT_FORMAT = 'magic-eye-anything-project';
+
+/**
+ * Bump when the file layout changes, and teach `parseProject` to upgrade
+ * projects saved with older versions
+ */
+export const PROJECT_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = '.magiceye.json';
+
+/**
+ * A depth map stored losslessly enough for 16-bit sources: samples scaled to 16
+ * bits, little-endian, gzipped, as a data URL
+ */
+export type EncodedDepthMap = {width: number; height: number; data: string};
+
+/**
+ * Everything needed to pick up where the user left off. Images are data URLs.
+ */
+export type Project<Settings> = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  settings: Settings;
+  /** The photo behind the depth, if there is one */
+  sourceImage: string | null;
+  /** The depth before processing, so opening a project skips the model */
+  depth: EncodedDepthMap;
+  /** Whether `depth` was loaded by the user rather than estimated */
+  depthIsLoaded: boolean;
+  customPattern: string | null;
+  /** Depth brush offsets, mapped from -1…1 to 0…1 */
+  depthEdits: EncodedDepthMap | null;
+  /** Depth layers, with silhouette images as data URLs */
+  depthLayers: Record<string, unknown>[];
+};
+
+/**
+ * Reads a project file, upgrading older versions to the current layout
+ */
+export async function parseProject<Settings>(
+  file: Blob,
+): Promise<Project<Settings>> {
+  let project: Project<Settings>;
+  try {
+    project = JSON.parse(await file.text()) as Project<Settings>;
+  } catch {
+    throw new Error('This file is not a project.');
+  }
+
+  if (project?.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a project.');
+  }
+  if (project.version > PROJECT_VERSION) {
+    throw new Error(
+      'This project was saved by a newer version. Reload the page to update.',
+    );
+  }
+
+  return project;
+}
+
+export async function encodeDepthMap({
+  data,
+  width,
+  height,
+}: DepthMap): Promise<EncodedDepthMap> {
+  const samples = new DataView(new ArrayBuffer(data.length * 2));
+  for (let i = 0; i < data.length; ++i) {
+    const value = Math.min(1, Math.max(0, data[i]!));
+    samples.setUint16(i * 2, Math.round(value * 0xffff), true);
+  }
+
+  const compressed = new Blob([samples])
+    .stream()
+    .pipeThrough(new CompressionStream('gzip'));
+  return {
+    width,
+    height,
+    data: await blobToDataUrl(
+      await new Response(compressed).blob(),
+      'application/gzip',
+    ),
+  };
+}
+
+export async function decodeDepthMap({
+  data,
+  width,
+  height,
+}: EncodedDepthMap): Promise<DepthMap> {
+  const compressed = await dataUrlToBlob(data);
+  const samples = new DataView(
+    await new Response(
+      compressed.stream().pipeThrough(new DecompressionStream('gzip')),
+    ).arrayBuffer(),
+  );
+
+  const map = new Float32Array(width * height);
+  for (let i = 0; i < map.length; ++i) {
+    map[i] = samples.getUint16(i * 2, true) / 0xffff;
+  }
+  return {data: map, width, height};
+}
+
+export function blobToDataUrl(blob: Blob, type = blob.type): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(type === blob.type ? blob : new Blob([blob], {type}));
+  });
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob();
+}
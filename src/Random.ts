@@ -0,0 +1,24 @@
+/** Returns pseudo-random numbers in [0, 1), like `Math.random` */
+export type Random = () => number;
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32). The same seed
+ * always produces the same sequence.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Picks a new random 32-bit seed
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
@@ -0,0 +1,126 @@
+import {ImageDataLike, PixelGrid} from './PixelGrid';
+
+export type SeamlessMode = 'off' | 'mirror' | 'blend';
+
+/**
+ * Reworks an image so that it repeats without a visible seam. `'mirror'`
+ * appends flipped copies, doubling the size; `'blend'` cross-fades each edge
+ * into the opposite one, trimming `blendFraction` of the size.
+ */
+export function makeSeamless(
+  image: ImageDataLike,
+  mode: SeamlessMode,
+  blendFraction = 0.15,
+): ImageDataLike {
+  switch (mode) {
+    case 'off':
+      return image;
+    case 'mirror':
+      return mirrorTile(new PixelGrid(image));
+    case 'blend': {
+      const horizontal = blendHorizontally(new PixelGrid(image), blendFraction);
+      return transpose(
+        blendHorizontally(new PixelGrid(transpose(horizontal)), blendFraction),
+      );
+    }
+  }
+}
+
+/**
+ * How visible the seam is when the image repeats: the average difference, from
+ * 0 (seamless) to 1, between the pixels that meet across the wrapped edges.
+ * Compare with neighboring columns inside the image to judge what is normal for
+ * its texture.
+ */
+export function measureSeam(grid: PixelGrid<ImageDataLike>): number {
+  const {width, height} = grid;
+  let difference = 0;
+
+  for (let y = 0; y < height; y++) {
+    difference += pixelDifference(grid, width - 1, y, 0, y);
+  }
+  for (let x = 0; x < width; x++) {
+    difference += pixelDifference(grid, x, height - 1, x, 0);
+  }
+
+  return difference / (width + height);
+}
+
+/** Average difference of the color channels of two pixels, from 0 to 1 */
+function pixelDifference(
+  grid: PixelGrid<ImageDataLike>,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): number {
+  const a = grid.get(x1, y1);
+  const b = grid.get(x2, y2);
+  return (
+    (Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]) + Math.abs(a[2] - b[2])) /
+    (3 * 255)
+  );
+}
+
+function createImage(width: number, height: number): ImageDataLike {
+  return {data: new Uint8ClampedArray(width * height * 4), width, height};
+}
+
+function mirrorTile(source: PixelGrid<ImageDataLike>): ImageDataLike {
+  const {width, height} = source;
+  const output = new PixelGrid(createImage(width * 2, height * 2));
+
+  for (let y = 0; y < height * 2; y++) {
+    const sourceY = y < height ? y : height * 2 - 1 - y;
+    for (let x = 0; x < width * 2; x++) {
+      const sourceX = x < width ? x : width * 2 - 1 - x;
+      output.set(x, y, source.get(sourceX, sourceY));
+    }
+  }
+
+  return output.imageData;
+}
+
+/**
+ * Trims a band off the right edge and fades it in over the left edge, so the
+ * left edge continues where the right one ends
+ */
+function blendHorizontally(
+  source: PixelGrid<ImageDataLike>,
+  blendFraction: number,
+): ImageDataLike {
+  const band = Math.floor(source.width * blendFraction);
+  const width = source.width - band;
+  const output = new PixelGrid(createImage(width, source.height));
+
+  for (let y = 0; y < source.height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = source.get(x, y);
+      if (x < band) {
+        const trimmed = source.get(width + x, y);
+        const t = (x + 0.5) / band;
+        for (let channel = 0; channel < 4; channel++) {
+          pixel[channel] = Math.round(
+            trimmed[channel]! * (1 - t) + pixel[channel]! * t,
+          );
+        }
+      }
+      output.set(x, y, pixel);
+    }
+  }
+
+  return output.imageData;
+}
+
+function transpose(image: ImageDataLike): ImageDataLike {
+  const source = new PixelGrid(image);
+  const output = new PixelGrid(createImage(image.height, image.width));
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      output.set(y, x, source.get(x, y));
+    }
+  }
+
+  return output.imageData;
+}
@@ -0,0 +1,128 @@
+import {DepthMap} from './Autostereogram';
+import {ImageDataLike} from './PixelGrid';
+
+/**
+ * How a stereo pair is put together for viewing:
+ *
+ * - `anaglyph`: both views in one image, for red-cyan glasses
+ * - `side-by-side`: left view on the left, for parallel (wall-eyed) viewing
+ * - `cross-eyed`: left view on the right, for cross-eyed viewing
+ */
+export type StereoPairLayout = 'anaglyph' | 'side-by-side' | 'cross-eyed';
+
+// The parallax between the nearest and farthest points, relative to the image
+// width, at a disparity scale of 1
+const MAX_PARALLAX = 0.03;
+
+/**
+ * Synthesizes the photo as seen from a shifted viewpoint, by moving each pixel
+ * sideways according to its depth. `eye` runs from -1 for the left eye to 1 for
+ * the right eye; 0 is the photo itself. The middle of the depth range stays
+ * put, so the pair converges on it.
+ *
+ * Pixels that the shift uncovers are filled in from the background next to
+ * them, since whatever was behind the foreground was never photographed.
+ */
+export function synthesizeView(
+  image: ImageDataLike,
+  depth: DepthMap,
+  eye: number,
+  disparityScale: number,
+): ImageData {
+  const {width, height} = image;
+  if (depth.width !== width || depth.height !== height) {
+    throw new Error('The depth map must be the same size as the image');
+  }
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  const shift = (-eye * MAX_PARALLAX * disparityScale * width) / 2;
+  // The depth that landed on each output pixel, or -1 for holes
+  const depthBuffer = new Float32Array(width);
+
+  for (let y = 0; y < height; ++y) {
+    const row = y * width;
+    depthBuffer.fill(-1);
+
+    // Forward-warp the row, letting nearer pixels cover farther ones
+    for (let x = 0; x < width; ++x) {
+      const z = depth.data[row + x]!;
+      const target = Math.round(x + shift * (z - 0.5));
+      if (target < 0 || target >= width || z <= depthBuffer[target]!) {
+        continue;
+      }
+      depthBuffer[target] = z;
+      copyPixel(image.data, row + x, output, row + target);
+    }
+
+    // Fill each run of holes from whichever side of it is farther away
+    for (let x = 0; x < width; ++x) {
+      if (depthBuffer[x]! >= 0) {
+        continue;
+      }
+      let end = x;
+      while (end < width && depthBuffer[end]! < 0) {
+        ++end;
+      }
+      const before = x > 0 ? x - 1 : -1;
+      const after = end < width ? end : -1;
+      const fill =
+        before < 0 || (after >= 0 && depthBuffer[after]! < depthBuffer[before]!)
+          ? after
+          : before;
+      if (fill >= 0) {
+        for (let i = x; i < end; ++i) {
+          copyPixel(output, row + fill, output, row + i);
+        }
+      }
+      x = end;
+    }
+  }
+
+  return new ImageData(output, width, height);
+}
+
+/**
+ * Combines a stereo pair into a single image laid out for `layout`. Side by
+ * side layouts are twice as wide as the views.
+ */
+export function composeStereoPair(
+  left: ImageDataLike,
+  right: ImageDataLike,
+  layout: StereoPairLayout,
+): ImageData {
+  const {width, height} = left;
+
+  if (layout === 'anaglyph') {
+    // Red reaches the left eye through the red filter, green and blue the right
+    const output = new Uint8ClampedArray(right.data);
+    for (let i = 0; i < output.length; i += 4) {
+      output[i] = left.data[i]!;
+    }
+    return new ImageData(output, width, height);
+  }
+
+  const [first, second] =
+    layout === 'side-by-side' ? [left, right] : [right, left];
+  const output = new Uint8ClampedArray(width * 2 * height * 4);
+  const rowLength = width * 4;
+  for (let y = 0; y < height; ++y) {
+    const source = y * rowLength;
+    output.set(first.data.subarray(source, source + rowLength), source * 2);
+    output.set(
+      second.data.subarray(source, source + rowLength),
+      source * 2 + rowLength,
+    );
+  }
+  return new ImageData(output, width * 2, height);
+}
+
+function copyPixel(
+  from: Uint8ClampedArray,
+  fromIndex: number,
+  to: Uint8ClampedArray,
+  toIndex: number,
+) {
+  for (let channel = 0; channel < 4; ++channel) {
+    to[toIndex * 4 + channel] = from[fromIndex * 4 + channel]!;
+  }
+}
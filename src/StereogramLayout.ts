@@ -0,0 +1,169 @@
+import {PixelGrid} from './PixelGrid';
+import {makeSeamless, SeamlessMode} from './Seamless';
+
+// Generated patterns are drawn at this size, then scaled to fit the tile width
+export const PATTERN_SIZE = {width: 256, height: 1024};
+
+// The output width that fixed sizes like the watermark were designed for
+export const REFERENCE_WIDTH = 1920;
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type PatternStripOptions = {
+  /** Image size relative to the tile width */
+  scale: number;
+  /** Vertical shift, as a fraction of the image height */
+  offset: number;
+  /** Stamped near the top left and bottom right of the strip, if not empty */
+  watermark: string;
+};
+
+/**
+ * Computes the stereo separation bounds for an output `width` pixels wide,
+ * relative to that width
+ */
+export function relativeDisparities(
+  width: number,
+  disparityScale: number,
+): {minDisparity: number; maxDisparity: number; disparityScale: number} {
+  return {
+    minDisparity: Math.floor(width * 0.15),
+    maxDisparity: Math.floor(width * 0.2),
+    disparityScale,
+  };
+}
+
+/**
+ * Reworks an image pattern so that it repeats without a seam. Generated
+ * patterns tile seamlessly already.
+ */
+export function applySeamlessMode(
+  image: AnyCanvas,
+  mode: SeamlessMode,
+): AnyCanvas {
+  if (mode === 'off') {
+    return image;
+  }
+
+  const ctx = image.getContext('2d') as Context2D;
+  const {data, width, height} = makeSeamless(
+    ctx.getImageData(0, 0, image.width, image.height),
+    mode,
+  );
+
+  const canvas = new OffscreenCanvas(width, height);
+  canvas
+    .getContext('2d')!
+    .putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas;
+}
+
+/**
+ * Tiles the pattern image into a strip `tileWidth` pixels wide and stamps the
+ * watermark onto it
+ */
+export function createPatternStrip(
+  patternImage: AnyCanvas,
+  tileWidth: number,
+  outputWidth: number,
+  outputHeight: number,
+  {scale, offset, watermark}: PatternStripOptions,
+): PixelGrid {
+  const patternCanvas = new OffscreenCanvas(tileWidth, outputHeight);
+  fillImage(patternImage, patternCanvas, tileWidth, scale, offset);
+
+  const ctx = patternCanvas.getContext('2d')!;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.75)';
+  const textScale = outputWidth / REFERENCE_WIDTH;
+  ctx.lineWidth = textScale;
+  {
+    ctx.font = `800 ${18 * textScale}px "Arial Black", "Helvetica Black", "Helvetica Neue", Helvetica, Arial, sans-serif`;
+
+    const stringWidth = ctx.measureText(watermark).width;
+    ctx.fillText(watermark, 0, 40 * textScale);
+    ctx.strokeText(watermark, 0, 40 * textScale);
+
+    ctx.fillText(
+      watermark,
+      tileWidth - stringWidth,
+      outputHeight - 40 * textScale,
+    );
+    ctx.strokeText(
+      watermark,
+      tileWidth - stringWidth,
+      outputHeight - 40 * textScale,
+    );
+  }
+
+  return new PixelGrid(
+    ctx.getImageData(0, 0, patternCanvas.width, patternCanvas.height),
+  );
+}
+
+/**
+ * Draws an image centered on a canvas with the correct aspect ratio, fitting
+ * the entire picture, for previews
+ */
+export function drawImageCentered(image: AnyCanvas, canvas: AnyCanvas) {
+  const ctx = canvas.getContext('2d') as Context2D;
+  const scale = Math.min(
+    canvas.width / image.width,
+    canvas.height / image.height,
+  );
+  const width = image.width * scale;
+  const height = image.height * scale;
+  ctx.drawImage(
+    image,
+    (canvas.width - width) / 2,
+    (canvas.height - height) / 2,
+    width,
+    height,
+  );
+}
+
+/**
+ * Fills the canvas with the image, as a repeating pattern
+ */
+export function fillImage(
+  image: AnyCanvas,
+  canvas: AnyCanvas,
+  /**
+   * The width of the tiles to use for the pattern; the height will be
+   * calculated to maintain the aspect ratio.
+   */
+  tileWidth: number,
+  /** Image size relative to the tile width */
+  scale = 1,
+  /** Vertical shift, as a fraction of the image height */
+  offset = 0,
+) {
+  const ctx = canvas.getContext('2d') as Context2D;
+
+  // Snap to a whole number of images per tile, or the tiles would not line up
+  const imagesPerTile = Math.max(1, Math.round(1 / scale));
+  const imageWidth = tileWidth / imagesPerTile;
+
+  // Calculate image height to maintain aspect ratio
+  const imageHeight = (imageWidth * image.height) / image.width;
+  const offsetY = (offset - 1) * imageHeight;
+
+  // Calculate how many images we need to fill the canvas
+  const tilesX = Math.ceil(canvas.width / imageWidth);
+  const tilesY = Math.ceil((canvas.height - offsetY) / imageHeight);
+
+  // Draw the image as a repeating pattern
+  for (let y = 0; y < tilesY; y++) {
+    for (let x = 0; x < tilesX; x++) {
+      ctx.drawImage(
+        image,
+        x * imageWidth,
+        offsetY + y * imageHeight,
+        imageWidth,
+        imageHeight,
+      );
+    }
+  }
+}
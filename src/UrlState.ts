@@ -0,0 +1,152 @@
+/**
+ * How one setting is written to and read back from the URL. `parse` returns
+ * `undefined` for anything invalid, so that the setting keeps its default.
+ */
+export type UrlField<T> = {
+  parse(value: string): T | undefined;
+  format(value: T): string;
+};
+
+export type UrlFields<S> = {[K in keyof S]: UrlField<S[K]>};
+
+export function numberField(min: number, max: number): UrlField<number> {
+  return {
+    parse: (value) => {
+      const number = Number(value);
+      return value.trim() !== '' && number >= min && number <= max
+        ? number
+        : undefined;
+    },
+    format: (value) => String(value),
+  };
+}
+
+export function integerField(min: number, max: number): UrlField<number> {
+  const field = numberField(min, max);
+  return {
+    ...field,
+    parse: (value) => {
+      const number = field.parse(value);
+      return Number.isInteger(number) ? number : undefined;
+    },
+  };
+}
+
+/** Whole numbers from 0 to 2³² - 1, such as seeds */
+export const uint32Field: UrlField<number> = {
+  parse: (value) => {
+    const number = Number(value);
+    return /^\d+$/.test(value) && number <= 0xffffffff ? number : undefined;
+  },
+  format: (value) => String(value),
+};
+
+export function stringField(maxLength: number): UrlField<string> {
+  return {
+    parse: (value) => (value.length <= maxLength ? value : undefined),
+    format: (value) => value,
+  };
+}
+
+/** One of a fixed set of values, which may only be known at runtime */
+export function oneOfField<T extends string | number>(
+  values: readonly T[] | (() => readonly T[]),
+): UrlField<T> {
+  return {
+    parse: (value) => {
+      const allowed = typeof values === 'function' ? values() : values;
+      return allowed.find((allowedValue) => String(allowedValue) === value);
+    },
+    format: (value) => String(value),
+  };
+}
+
+export const booleanField: UrlField<boolean> = {
+  parse: (value) =>
+    value === 'true' ? true : value === 'false' ? false : undefined,
+  format: (value) => String(value),
+};
+
+/** CSS hex colors like `#ff8800` */
+export const colorField: UrlField<string> = {
+  parse: (value) => (/^#[0-9a-f]{6}$/i.test(value) ? value : undefined),
+  format: (value) => value,
+};
+
+/**
+ * Reads the valid settings from a URL hash like `#seed=42&watermark=HI`.
+ * Unknown keys and invalid values are ignored.
+ */
+export function readUrlState<S>(
+  hash: string,
+  fields: UrlFields<S>,
+): Partial<S> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: Partial<S> = {};
+
+  for (const key of Object.keys(fields) as (keyof S & string)[]) {
+    const value = params.get(key);
+    if (value === null) {
+      continue;
+    }
+    const parsed = fields[key].parse(value);
+    if (parsed !== undefined) {
+      state[key] = parsed;
+    }
+  }
+
+  return state;
+}
+
+/** Fields for settings saved as JSON, where groups of settings nest */
+export type SettingFields<S> = {
+  [K in keyof S]: S[K] extends Record<string, unknown>
+    ? SettingFields<S[K]>
+    : UrlField<S[K]>;
+};
+
+/**
+ * Reads the valid settings from saved JSON, such as a project file, checking
+ * each one as if it came from the URL. Values of the wrong type, unknown keys
+ * and invalid values are ignored.
+ */
+export function readSettings<S>(
+  saved: unknown,
+  fields: SettingFields<S>,
+): Record<string, unknown> {
+  const state: Record<string, unknown> = {};
+  if (typeof saved !== 'object' || saved === null || Array.isArray(saved)) {
+    return state;
+  }
+
+  for (const [key, field] of Object.entries<
+    UrlField<unknown> | SettingFields<unknown>
+  >(fields)) {
+    const value = (saved as Record<string, unknown>)[key];
+    if (!('parse' in field)) {
+      state[key] = readSettings(value, field);
+    } else if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      const parsed = field.parse(String(value));
+      if (parsed !== undefined && typeof parsed === typeof value) {
+        state[key] = parsed;
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Writes the settings to a URL hash, without the leading `#`
+ */
+export function formatUrlState<S>(state: S, fields: UrlFields<S>): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(fields) as (keyof S & string)[]) {
+    params.set(key, fields[key].format(state[key]));
+  }
+  return params.toString();
+}
@@ -0,0 +1,97 @@
+import {ViewingMethod} from './Autostereogram';
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Physical viewing conditions for a printed or displayed autostereogram
+ */
+export type ViewingGeometry = {
+  /** Output resolution: print DPI, or the PPI of the screen at 100% zoom */
+  dpi: number;
+  eyeSeparationMm: number;
+  /** Distance from the eyes to the image */
+  viewingDistanceMm: number;
+  /**
+   * How far the hidden scene may extend from the background plane toward the
+   * viewer. Viewed divergently, the background sits as far behind the image as
+   * the eyes are in front of it; convergently, a third of the way from the
+   * image to the eyes.
+   */
+  depthOfFieldMm: number;
+};
+
+/**
+ * The real depth, in mm, spanned by the hidden scene for a given fraction of
+ * the depth of field
+ */
+export function depthRangeMm(
+  geometry: ViewingGeometry,
+  disparityScale: number,
+  viewingMethod: ViewingMethod = 'divergent',
+): number {
+  // In front of the image, the scene can't come closer than a third of the
+  // viewing distance to the eyes
+  const maxDepthMm =
+    viewingMethod === 'convergent'
+      ? geometry.viewingDistanceMm / 3
+      : geometry.viewingDistanceMm;
+  return Math.min(geometry.depthOfFieldMm, maxDepthMm) * disparityScale;
+}
+
+/**
+ * Computes the pixel disparities that place the background plane and the
+ * nearest point at their true physical depths
+ */
+export function physicalDisparities(
+  geometry: ViewingGeometry,
+  disparityScale: number,
+  viewingMethod: ViewingMethod = 'divergent',
+): {minDisparity: number; maxDisparity: number; disparityScale: number} {
+  const {dpi, eyeSeparationMm, viewingDistanceMm} = geometry;
+  const pixelsPerMm = dpi / MM_PER_INCH;
+  const rangeMm = depthRangeMm(geometry, disparityScale, viewingMethod);
+
+  if (viewingMethod === 'convergent') {
+    // The lines of sight cross at a point `inFrontMm` in front of the image,
+    // and carry on to the image this far apart
+    const separationMm = (inFrontMm: number) =>
+      (eyeSeparationMm * inFrontMm) / (viewingDistanceMm - inFrontMm);
+
+    const farMm = viewingDistanceMm / 3;
+    const nearMm = Math.min((viewingDistanceMm * 2) / 3, farMm + rangeMm);
+
+    const minDisparity = Math.round(separationMm(farMm) * pixelsPerMm);
+    const range = (separationMm(nearMm) - separationMm(farMm)) * pixelsPerMm;
+    return {
+      minDisparity,
+      maxDisparity: minDisparity + range,
+      disparityScale: 1,
+    };
+  }
+
+  // Similar triangles: a point `behindMm` behind the image plane is seen by the
+  // two eyes through points this far apart on the image.
+  const separationMm = (behindMm: number) =>
+    (eyeSeparationMm * behindMm) / (viewingDistanceMm + behindMm);
+
+  const farMm = viewingDistanceMm;
+  const nearMm = Math.max(0, farMm - rangeMm);
+
+  // Points on the image plane itself would repeat with no separation at all,
+  // which can't be rendered, so keep the nearest point at least a quarter of
+  // the background's separation
+  const nearestSeparationMm = Math.max(
+    separationMm(nearMm),
+    separationMm(farMm) / 4,
+  );
+
+  const minDisparity = Math.round(separationMm(farMm) * pixelsPerMm);
+  const range = (separationMm(farMm) - nearestSeparationMm) * pixelsPerMm;
+
+  // The range is already in real units, so no further scaling is needed
+  return {
+    minDisparity,
+    maxDisparity: minDisparity + range,
+    disparityScale: 1,
+  };
+}
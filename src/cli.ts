@@ -0,0 +1,485 @@
+// Registers the built-in pattern generators
+import './PatternGenerator';
+
+import {mkdir, readdir, readFile, stat, writeFile} from 'node:fs/promises';
+import {basename, extname, join} from 'node:path';
+import {parseArgs} from 'node:util';
+
+import {
+  DepthEstimationPipeline,
+  DepthEstimationPipelineOutput,
+  RawImage,
+} from '@huggingface/transformers';
+
+import {
+  DepthMap,
+  renderAutostereogram,
+  StereogramAlgorithm,
+  ViewingMethod,
+} from './Autostereogram';
+import {DepthDisplayMode, placeDepth} from './DepthBuffer';
+import {
+  DEPTH_MODELS,
+  DepthModelSettings,
+  loadDepthEstimator,
+  predictionToDepthMap,
+} from './DepthEstimation';
+import {decodeDepthMapFile} from './DepthMapFile';
+import {encodePng, installCanvasGlobals, rawImageToCanvas} from './NodeCanvas';
+import {generateRandomGradientColors} from './PatternGenerator';
+import {
+  defaultPatternParams,
+  getPatternGenerator,
+  getPatternGenerators,
+  PatternGenerator,
+  PatternParameterValue,
+} from './PatternRegistry';
+import {createRandom, randomSeed} from './Random';
+import {SeamlessMode} from './Seamless';
+import {
+  applySeamlessMode,
+  createPatternStrip,
+  PATTERN_SIZE,
+  relativeDisparities,
+} from './StereogramLayout';
+
+// Additional pattern generators register themselves when imported, as in the
+// browser app
+import.meta.glob('./patterns/*.ts', {eager: true});
+
+const USAGE = `Usage:
+  magic-eye render --out <file or folder> [options]
+  magic-eye patterns
+
+Renders autostereograms from photos or depth maps. Passing folders to --image
+or --depth renders every image in them into the --out folder; photos and depth
+maps with the same name are paired up.
+
+Input:
+  --image <file or folder>   Photos to estimate depth from
+  --depth <file or folder>   Precomputed depth maps; 16-bit PNGs keep their
+                             full precision. Near is white, unless --invert.
+  --invert                   Treat black as near in --depth maps
+  --model-dir <folder>       Where depth models are stored, one folder per
+                             model ID; required for estimating depth
+  --model <id>               Depth model (default: ${DEPTH_MODELS[0].id})
+  --dtype <type>             auto, fp32, fp16 or q8 (default: auto)
+
+Output:
+  --out <file or folder>     Where to write PNGs
+  --width <pixels>           Output width (default: 1920)
+  --height <pixels>          Output height (default: 1080)
+  --pattern <id or file>     A pattern generator, or an image to tile
+                             (default: noise); see \`magic-eye patterns\`
+  --param <name=value>       A pattern generator parameter; repeatable
+  --seamless <mode>          off, mirror or blend, for image patterns
+  --seed <number>            Seed for generated patterns (default: random)
+  --algorithm <name>         left-to-right or symmetric
+  --viewing <method>         divergent (wall-eyed) or convergent (cross-eyed)
+                             (default: divergent)
+  --oversampling <factor>    1 (fast), 2, 4 or 8; higher factors render smooth
+                             depth without terracing (default: 1)
+  --depth-scale <number>     Depth intensity (default: 1)
+  --depth-style <style>      clamp, cutout or popout (default: clamp)
+  --watermark <text>         Text stamped on the pattern (default: none)
+`;
+
+const IMAGE_EXTENSIONS = [
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.webp',
+  '.gif',
+  '.bmp',
+  '.tif',
+  '.tiff',
+];
+
+type RenderOptions = {
+  width: number;
+  height: number;
+  pattern: PatternGenerator | RawImage;
+  patternParams: Record<string, PatternParameterValue>;
+  seamlessMode: SeamlessMode;
+  seed: number;
+  algorithm: StereogramAlgorithm;
+  viewingMethod: ViewingMethod;
+  oversampling: number;
+  disparityScale: number;
+  depthDisplayMode: DepthDisplayMode;
+  watermark: string;
+  invertDepth: boolean;
+  depthModel: DepthModelSettings;
+};
+
+/** One output image and the inputs it is rendered from */
+type RenderJob = {
+  name: string;
+  image: string | null;
+  depth: string | null;
+  out: string;
+};
+
+let depthEstimator: DepthEstimationPipeline | null = null;
+
+async function main(args: string[]): Promise<number> {
+  const {values, positionals} = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      image: {type: 'string'},
+      depth: {type: 'string'},
+      invert: {type: 'boolean', default: false},
+      'model-dir': {type: 'string', default: ''},
+      model: {type: 'string', default: DEPTH_MODELS[0].id},
+      dtype: {type: 'string', default: 'auto'},
+      out: {type: 'string'},
+      width: {type: 'string', default: '1920'},
+      height: {type: 'string', default: '1080'},
+      pattern: {type: 'string', default: 'noise'},
+      param: {type: 'string', multiple: true, default: []},
+      seamless: {type: 'string', default: 'off'},
+      seed: {type: 'string'},
+      algorithm: {type: 'string', default: 'left-to-right'},
+      viewing: {type: 'string', default: 'divergent'},
+      oversampling: {type: 'string', default: '1'},
+      'depth-scale': {type: 'string', default: '1'},
+      'depth-style': {type: 'string', default: 'clamp'},
+      watermark: {type: 'string', default: ''},
+      help: {type: 'boolean', short: 'h', default: false},
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  installCanvasGlobals();
+
+  if (command === 'patterns') {
+    listPatterns();
+    return 0;
+  }
+  if (command !== 'render') {
+    throw new Error(`Unknown command "${command}".`);
+  }
+
+  if (!values.out) {
+    throw new Error('Pass --out to say where to write the output.');
+  }
+  if (!values.image && !values.depth) {
+    throw new Error('Pass --image, --depth or both.');
+  }
+
+  const pattern = getPatternGenerator(values.pattern);
+  const model = values.model.trim();
+  const options: RenderOptions = {
+    width: parseInteger('width', values.width),
+    height: parseInteger('height', values.height),
+    pattern: pattern ?? (await loadPatternFile(values.pattern)),
+    patternParams: pattern ? parsePatternParams(pattern, values.param) : {},
+    seamlessMode: parseOneOf('seamless', values.seamless, [
+      'off',
+      'mirror',
+      'blend',
+    ]),
+    seed:
+      values.seed === undefined
+        ? randomSeed()
+        : parseInteger('seed', values.seed, 0),
+    algorithm: parseOneOf('algorithm', values.algorithm, [
+      'left-to-right',
+      'symmetric',
+    ]),
+    viewingMethod: parseOneOf('viewing', values.viewing, [
+      'divergent',
+      'convergent',
+    ]),
+    oversampling: Number(
+      parseOneOf('oversampling', values.oversampling, ['1', '2', '4', '8']),
+    ),
+    disparityScale: parseNumber('depth-scale', values['depth-scale']),
+    depthDisplayMode: parseOneOf('depth-style', values['depth-style'], [
+      'clamp',
+      'cutout',
+      'popout',
+    ]),
+    watermark: values.watermark,
+    invertDepth: values.invert,
+    depthModel: {
+      model: DEPTH_MODELS.some(({id}) => id === model)
+        ? (model as DepthModelSettings['model'])
+        : 'custom',
+      customModel: model,
+      // Without a GPU in reach, this picks the CPU backend
+      device: 'auto',
+      dtype: parseOneOf('dtype', values.dtype, ['auto', 'fp32', 'fp16', 'q8']),
+      modelPath: values['model-dir'],
+    },
+  };
+
+  const jobs = await listJobs(values.image, values.depth, values.out);
+  if (jobs.length === 0) {
+    throw new Error('No images found.');
+  }
+  if (jobs.some(({depth}) => !depth) && !options.depthModel.modelPath) {
+    // Never fall back to downloading models, so batch jobs can run offline
+    throw new Error(
+      'Estimating depth needs a model on disk. Pass --model-dir, or --depth.',
+    );
+  }
+  if (values.seed === undefined) {
+    console.log(`Using seed ${options.seed}`);
+  }
+
+  let failures = 0;
+  for (const job of jobs) {
+    try {
+      await renderJob(job, options);
+      console.log(`${job.name} → ${job.out}`);
+    } catch (error) {
+      failures++;
+      console.error(`${job.name}: ${errorMessage(error)}`);
+    }
+  }
+
+  await depthEstimator?.dispose();
+  return failures > 0 ? 1 : 0;
+}
+
+function listPatterns() {
+  for (const generator of getPatternGenerators()) {
+    console.log(`${generator.id}: ${generator.label}`);
+    for (const [name, parameter] of Object.entries(generator.parameters)) {
+      console.log(
+        `  --param ${name}=${parameter.default}  (${parameter.label})`,
+      );
+    }
+  }
+}
+
+/**
+ * Pairs up the inputs and names the outputs. Folders are rendered file by file,
+ * photos taking their depth map from the file with the same name, if any.
+ */
+async function listJobs(
+  image: string | undefined,
+  depth: string | undefined,
+  out: string,
+): Promise<RenderJob[]> {
+  const imageIsFolder = !!image && (await isFolder(image));
+  const depthIsFolder = !!depth && (await isFolder(depth));
+
+  if (!imageIsFolder && !depthIsFolder) {
+    const name = basename(image ?? depth!);
+    const outIsFolder = await isFolder(out);
+    return [
+      {
+        name,
+        image: image ?? null,
+        depth: depth ?? null,
+        out: outIsFolder ? join(out, `${stem(name)}.png`) : out,
+      },
+    ];
+  }
+
+  if ((image && !imageIsFolder) || (depth && !depthIsFolder)) {
+    throw new Error('--image and --depth must both be files or both folders.');
+  }
+
+  await mkdir(out, {recursive: true});
+  const depthFiles = depth ? await listImages(depth) : [];
+  const depthByStem = new Map(depthFiles.map((file) => [stem(file), file]));
+
+  return (image ? await listImages(image) : depthFiles).map((name) => {
+    const depthName = image ? depthByStem.get(stem(name)) : name;
+    return {
+      name,
+      image: image ? join(image, name) : null,
+      depth: depth && depthName ? join(depth, depthName) : null,
+      out: join(out, `${stem(name)}.png`),
+    };
+  });
+}
+
+async function renderJob(job: RenderJob, options: RenderOptions) {
+  const {width, height} = options;
+  const photo = job.image
+    ? await RawImage.fromBlob(await readBlob(job.image))
+    : null;
+
+  let depthMap: DepthMap;
+  if (job.depth) {
+    depthMap = await decodeDepthMapFile(await readBlob(job.depth));
+    if (options.invertDepth) {
+      depthMap.data.forEach((value, i) => (depthMap.data[i] = 1 - value));
+    }
+  } else {
+    depthMap = await estimateDepth(photo!, options);
+  }
+  const depth = placeDepth(depthMap, width, height, options.depthDisplayMode);
+
+  const {minDisparity, maxDisparity, disparityScale} = relativeDisparities(
+    width,
+    options.disparityScale,
+  );
+  const pattern = createPatternStrip(
+    createPatternImage(options, photo),
+    minDisparity,
+    width,
+    height,
+    {scale: 1, offset: 0, watermark: options.watermark},
+  );
+
+  const output = renderAutostereogram({
+    depth,
+    pattern,
+    width,
+    height,
+    minDisparity,
+    maxDisparity,
+    disparityScale,
+    algorithm: options.algorithm,
+    viewingMethod: options.viewingMethod,
+    oversampling: options.oversampling,
+  });
+  await writeFile(job.out, await encodePng(output));
+}
+
+/**
+ * Loads the depth model once, then estimates depth for `image` on the CPU
+ */
+async function estimateDepth(
+  image: RawImage,
+  options: RenderOptions,
+): Promise<DepthMap> {
+  depthEstimator ??= await loadDepthEstimator(options.depthModel);
+  const {predicted_depth} = (await depthEstimator(
+    image,
+  )) as DepthEstimationPipelineOutput;
+  return predictionToDepthMap(predicted_depth);
+}
+
+/**
+ * Generates the pattern from `seed`, or tiles the pattern image
+ */
+function createPatternImage(
+  options: RenderOptions,
+  photo: RawImage | null,
+): OffscreenCanvas | HTMLCanvasElement {
+  const {pattern, seed} = options;
+  if (pattern instanceof RawImage) {
+    return applySeamlessMode(rawImageToCanvas(pattern), options.seamlessMode);
+  }
+
+  const {color1, color2, color3} = generateRandomGradientColors(
+    createRandom(seed),
+  );
+  return pattern.generate(options.patternParams, seed, PATTERN_SIZE, {
+    gradientColors: [color1, color2, color3],
+    prefersDark: false,
+    getSourceImage: () => photo && rawImageToCanvas(photo),
+  });
+}
+
+async function loadPatternFile(path: string): Promise<RawImage> {
+  try {
+    return await RawImage.fromBlob(await readBlob(path));
+  } catch {
+    throw new Error(
+      `"${path}" is neither a pattern nor an image. See \`magic-eye patterns\`.`,
+    );
+  }
+}
+
+/**
+ * Reads `--param name=value` pairs against the generator's parameter schema
+ */
+function parsePatternParams(
+  generator: PatternGenerator,
+  pairs: string[],
+): Record<string, PatternParameterValue> {
+  const params = defaultPatternParams(generator);
+  for (const pair of pairs) {
+    const [name = '', value = ''] = pair.split(/=(.*)/s);
+    const parameter = generator.parameters[name];
+    if (!parameter) {
+      const names = Object.keys(generator.parameters).join(', ') || 'none';
+      throw new Error(
+        `The ${generator.id} pattern has no "${name}" parameter. It has: ${names}.`,
+      );
+    }
+
+    switch (parameter.type) {
+      case 'number':
+        params[name] = parseNumber(name, value);
+        break;
+      case 'boolean':
+        params[name] = parseOneOf(name, value, ['true', 'false']) === 'true';
+        break;
+      case 'string':
+        params[name] = value;
+        break;
+    }
+  }
+  return params;
+}
+
+function parseNumber(name: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new Error(`--${name} must be a number, not "${value}".`);
+  }
+  return number;
+}
+
+function parseInteger(name: string, value: string, min = 1): number {
+  const number = parseNumber(name, value);
+  if (!Number.isInteger(number) || number < min || number > 0xffffffff) {
+    throw new Error(`--${name} must be a whole number from ${min}.`);
+  }
+  return number;
+}
+
+function parseOneOf<T extends string>(
+  name: string,
+  value: string,
+  allowed: readonly T[],
+): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`--${name} must be one of ${allowed.join(', ')}.`);
+  }
+  return value as T;
+}
+
+async function readBlob(path: string): Promise<Blob> {
+  return new Blob([await readFile(path)]);
+}
+
+async function isFolder(path: string): Promise<boolean> {
+  return (await stat(path).catch(() => null))?.isDirectory() ?? false;
+}
+
+async function listImages(folder: string): Promise<string[]> {
+  return (await readdir(folder))
+    .filter((name) => IMAGE_EXTENSIONS.includes(extname(name).toLowerCase()))
+    .sort();
+}
+
+function stem(name: string): string {
+  return basename(name, extname(name));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => (process.exitCode = exitCode),
+  (error) => {
+    console.error(`magic-eye: ${errorMessage(error)}`);
+    process.exitCode = 1;
+  },
+);
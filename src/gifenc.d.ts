@@ -0,0 +1,28 @@
+// Minimal typings for the parts of `gifenc` that we use; the package doesn't
+// ship its own.
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+  ): Palette;
+
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+  ): Uint8Array;
+
+  export type GIFStream = {
+    writeFrame(
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: {palette?: Palette; delay?: number; repeat?: number},
+    ): void;
+    finish(): void;
+    bytes(): Uint8Array;
+  };
+
+  export function GIFEncoder(): GIFStream;
+}
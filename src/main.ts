@@ -1,150 +1,495 @@
+// Registers the built-in pattern generators
+import './PatternGenerator';
+
 import {
   DepthEstimationPipeline,
   DepthEstimationPipelineOutput,
-  pipeline,
   RawImage,
 } from '@huggingface/transformers';
 import GUI from 'lil-gui';
 
 import {
-  generateConfettiPattern,
-  generateNoisePattern,
-  generateSprinklesPattern,
-} from './PatternGenerator';
-import {PixelGrid} from './PixelGrid';
+  ANIMATION_FILE_EXTENSIONS,
+  AnimationFormat,
+  encodeAnimation,
+} from './AnimationExport';
+import {DepthMap, StereogramAlgorithm, ViewingMethod} from './Autostereogram';
+import {AutostereogramRenderer} from './AutostereogramRenderer';
+import {
+  isolateSubject,
+  segmentSubject,
+  SubjectIsolation,
+} from './BackgroundRemoval';
+import {DepthBrushSettings, DepthEdits} from './DepthBrush';
+import {
+  createDepthMap,
+  DepthDisplayMode,
+  depthMapToImageData,
+  DepthPlacement,
+  depthPlacement,
+  placeDepth,
+} from './DepthBuffer';
+import {
+  DEPTH_MODELS,
+  depthEstimatorKey,
+  DepthModelSettings,
+  loadDepthEstimator,
+  predictionToDepthMap,
+} from './DepthEstimation';
+import {
+  applyDepthLayers,
+  DEPTH_LAYER_FONTS,
+  DepthLayer,
+  depthLayerAt,
+  describeDepthLayer,
+  parseDepthLayer,
+} from './DepthLayers';
+import {decodeDepthMapFile, depthMapToRawImage} from './DepthMapFile';
+import {
+  DEFAULT_DEPTH_PROCESSING,
+  DepthProcessing,
+  isIdentityProcessing,
+  processDepth,
+} from './DepthProcessing';
+import {generateRandomGradientColors} from './PatternGenerator';
+import {
+  defaultPatternParams,
+  getPatternGenerator,
+  getPatternGenerators,
+  PatternGenerator,
+  PatternParameterValue,
+  readPatternParams,
+} from './PatternRegistry';
+import {ImageDataLike, PixelGrid} from './PixelGrid';
+import {
+  blobToDataUrl,
+  dataUrlToBlob,
+  decodeDepthMap,
+  encodeDepthMap,
+  parseProject,
+  Project,
+  PROJECT_FILE_EXTENSION,
+  PROJECT_VERSION,
+} from './ProjectFile';
+import {createRandom, randomSeed} from './Random';
+import {measureSeam, SeamlessMode} from './Seamless';
+import {
+  applySeamlessMode,
+  createPatternStrip,
+  drawImageCentered,
+  PATTERN_SIZE,
+  PatternStripOptions,
+  REFERENCE_WIDTH,
+  relativeDisparities,
+} from './StereogramLayout';
+import {
+  composeStereoPair,
+  StereoPairLayout,
+  synthesizeView,
+} from './StereoViews';
+import {
+  booleanField,
+  colorField,
+  formatUrlState,
+  integerField,
+  numberField,
+  oneOfField,
+  readSettings,
+  readUrlState,
+  SettingFields,
+  stringField,
+  uint32Field,
+  UrlFields,
+} from './UrlState';
+import {
+  depthRangeMm,
+  physicalDisparities,
+  ViewingGeometry,
+} from './ViewingGeometry';
+
+// Additional pattern generators register themselves when imported; dropping a
+// module into this folder is all it takes to add one:
+import.meta.glob('./patterns/*.ts', {eager: true});
 
 // Available patterns in the public folder
 const PRESET_PATTERNS = [
   {name: 'Flowers', url: 'vintage-flowers-sm.jpg'},
 ] as const;
 
+// Output size presets, in pixels
+const SIZE_PRESETS = [
+  {name: 'HD (1920×1080)', id: 'hd', width: 1920, height: 1080},
+  {name: '4K (3840×2160)', id: '4k', width: 3840, height: 2160},
+  {
+    name: 'A4 landscape, 300 dpi',
+    id: 'a4-landscape',
+    width: 3508,
+    height: 2480,
+  },
+  {name: 'A4 portrait, 300 dpi', id: 'a4-portrait', width: 2480, height: 3508},
+  {name: 'Phone portrait', id: 'phone-portrait', width: 1080, height: 2340},
+  {name: 'Square', id: 'square', width: 2048, height: 2048},
+] as const;
+
+type SizePreset = (typeof SIZE_PRESETS)[number]['id'] | 'source' | 'custom';
+
+// What the canvas shows, in the order that clicking on it cycles through
+const DISPLAY_MODES = [
+  {name: 'Autostereogram', id: 'autostereogram'},
+  {name: 'Depth map', id: 'depth-map'},
+  {name: 'Source image', id: 'source-image'},
+  {name: 'Anaglyph (red-cyan)', id: 'anaglyph'},
+  {name: 'Side by side (parallel)', id: 'side-by-side'},
+  {name: 'Side by side (cross-eyed)', id: 'cross-eyed'},
+  {name: 'Wiggle', id: 'wiggle'},
+] as const;
+
+type DisplayMode = (typeof DISPLAY_MODES)[number]['id'];
+
+// The viewpoints a wiggle steps through, from the left eye (-1) to the right
+// (1), and how long it shows each
+const WIGGLE_VIEWS = [-1, 0, 1, 0];
+const WIGGLE_FRAME_DELAY = 120;
+
 type AppState = {
   disparityScale: number;
-  selectedPattern:
-    | (typeof PRESET_PATTERNS)[number]['url']
-    | 'custom'
-    | 'confetti'
-    | 'sprinkles'
-    | 'noise';
+  sizePreset: SizePreset;
+  outputWidth: number;
+  outputHeight: number;
+  usePhysicalGeometry: boolean;
+  viewingGeometry: ViewingGeometry;
+  algorithm: StereogramAlgorithm;
+  viewingMethod: ViewingMethod;
+  /** Samples per output pixel; 1 is the fast path */
+  oversampling: number;
+  /**
+   * A preset pattern URL, a registered pattern generator ID, or `'custom'` for
+   * an uploaded image
+   */
+  selectedPattern: (typeof PRESET_PATTERNS)[number]['url'] | 'custom' | string;
   customPatternFile: File | null;
+  /** How image patterns are reworked so that they repeat without a seam */
+  seamlessMode: SeamlessMode;
+  /** How visible the seam of the last image pattern is, from 0 to 1 */
+  patternSeam: number | null;
+  /** Pattern tile size relative to the tile width */
+  patternScale: number;
+  /** Vertical pattern shift, as a fraction of the tile height */
+  patternOffset: number;
+  /** Parameter values for each pattern generator, keyed by generator ID */
+  patternParams: Record<string, Record<string, PatternParameterValue>>;
+  seed: number;
   currentImage: RawImage | null;
-  currentDepth: PixelGrid | null;
-  originalDepthEstimation: RawImage | null;
+  /** The hidden depth at the output size, with everything applied */
+  currentDepth: DepthMap | null;
+  /** The depth before brush edits, at the output size */
+  uneditedDepth: DepthMap | null;
+  depthEdits: DepthEdits | null;
+  /**
+   * Where the depth sat in the output when the brush edits were last fitted to
+   * it, so that they can follow it to a new size or depth style
+   */
+  depthEditsPlacement: DepthPlacement | null;
+  depthBrushEnabled: boolean;
+  depthBrush: DepthBrushSettings;
+  /** Text, shapes and silhouettes drawn over the depth */
+  depthLayers: DepthLayer[];
+  /** Whether the layers replace the depth instead of going on top of it */
+  depthLayersOnly: boolean;
+  originalDepthEstimation: DepthMap | null;
+  depthProcessing: DepthProcessing;
+  /**
+   * `originalDepthEstimation` with `depthProcessing` and subject isolation
+   * applied
+   */
+  processedDepth: {
+    source: DepthMap;
+    mask: DepthMap | null;
+    key: string;
+    depth: DepthMap;
+  } | null;
+  /** Whether to flatten everything but the photo's subject */
+  isolateSubject: boolean;
+  subjectIsolation: SubjectIsolation;
+  /** The subject of `image`, at the size of its depth estimation `depth` */
+  subjectMask: {image: RawImage; depth: DepthMap; mask: DepthMap} | null;
+  loadedDepthMap: DepthMap | null;
+  loadedDepthColorImage: RawImage | null;
+  invertLoadedDepth: boolean;
   autostereogramImageData: ImageData | null;
-  isProcessing: boolean;
+  latestGenerationId: number;
   gui: GUI | null;
   fadeTimeout: NodeJS.Timeout | null;
   fadeAnimations: Animation[] | null;
-  displayMode: 'autostereogram' | 'depth-map' | 'source-image';
+  displayMode: DisplayMode;
+  /** Steps the wiggle display mode to its next frame */
+  wiggleTimer: NodeJS.Timeout | null;
   depthDisplayMode: DepthDisplayMode;
   watermark: string;
+  animationFrames: number;
+  animationFrameDelay: number;
+  animationFormat: AnimationFormat;
+  seizureWarningAccepted: boolean;
   gradientColor1: string;
   gradientColor2: string;
   gradientColor3: string;
-  updateGradientControls?: () => void;
-  depthEstimator: DepthEstimationPipeline | null;
+  updatePatternControls?: () => void;
+  updateDepthMapControls?: () => void;
+  updateDepthLayerControls?: () => void;
+  updateDepthProcessingControls?: () => void;
+  depthModel: DepthModelSettings;
+  /** The pipeline for `depthEstimatorKey`, which may still be loading */
+  depthEstimator: Promise<DepthEstimationPipeline> | null;
+  depthEstimatorKey: string | null;
 };
 
-// Convert HSL to hex color
-function hslToHex(h: number, s: number, l: number): string {
-  s /= 100;
-  l /= 100;
-
-  const c = (1 - Math.abs(2 * l - 1)) * s;
-  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
-  const m = l - c / 2;
-  let r = 0,
-    g = 0,
-    b = 0;
-
-  if (0 <= h && h < 60) {
-    r = c;
-    g = x;
-    b = 0;
-  } else if (60 <= h && h < 120) {
-    r = x;
-    g = c;
-    b = 0;
-  } else if (120 <= h && h < 180) {
-    r = 0;
-    g = c;
-    b = x;
-  } else if (180 <= h && h < 240) {
-    r = 0;
-    g = x;
-    b = c;
-  } else if (240 <= h && h < 300) {
-    r = x;
-    g = 0;
-    b = c;
-  } else if (300 <= h && h < 360) {
-    r = c;
-    g = 0;
-    b = x;
-  }
-
-  const rHex = Math.round((r + m) * 255)
-    .toString(16)
-    .padStart(2, '0');
-  const gHex = Math.round((g + m) * 255)
-    .toString(16)
-    .padStart(2, '0');
-  const bHex = Math.round((b + m) * 255)
-    .toString(16)
-    .padStart(2, '0');
-
-  return `#${rHex}${gHex}${bHex}`;
-}
-
-// Generate random HSL colors with pleasingly spaced hues
-function generateRandomGradientColors(): {
-  color1: string;
-  color2: string;
-  color3: string;
-} {
-  const baseHue = Math.random() * 360;
-  const color1 = hslToHex(baseHue, 70, 60);
-  const color2 = hslToHex((baseHue + 120) % 360, 80, 80);
-  const color3 = hslToHex((baseHue + 240) % 360, 70, 60);
-  return {color1, color2, color3};
-}
-
 // Global state for autostereogram generation
-const initialGradientColors = generateRandomGradientColors();
+const initialSeed = randomSeed();
+const initialGradientColors = generateRandomGradientColors(
+  createRandom(initialSeed),
+);
 const appState: AppState = {
   disparityScale: 1,
+  sizePreset: 'hd',
+  outputWidth: 1920,
+  outputHeight: 1080,
+  usePhysicalGeometry: false,
+  viewingGeometry: {
+    dpi: 96,
+    eyeSeparationMm: 63,
+    viewingDistanceMm: 600,
+    depthOfFieldMm: 300,
+  },
+  algorithm: 'left-to-right',
+  viewingMethod: 'divergent',
+  oversampling: 1,
   selectedPattern: 'noise',
   customPatternFile: null,
+  seamlessMode: 'off',
+  patternSeam: null,
+  patternScale: 1,
+  patternOffset: 0,
+  patternParams: {},
+  seed: initialSeed,
   currentImage: null,
   currentDepth: null,
+  uneditedDepth: null,
+  depthEdits: null,
+  depthEditsPlacement: null,
+  depthBrushEnabled: false,
+  depthBrush: {tool: 'closer', radius: 40, strength: 0.5},
+  depthLayers: [],
+  depthLayersOnly: false,
   originalDepthEstimation: null,
+  depthProcessing: {...DEFAULT_DEPTH_PROCESSING},
+  processedDepth: null,
+  isolateSubject: false,
+  subjectIsolation: {threshold: 0.5, feather: 2},
+  subjectMask: null,
+  loadedDepthMap: null,
+  loadedDepthColorImage: null,
+  invertLoadedDepth: false,
   autostereogramImageData: null,
-  isProcessing: false,
+  latestGenerationId: 0,
   gui: null,
   fadeTimeout: null,
   fadeAnimations: null,
   displayMode: 'autostereogram',
+  wiggleTimer: null,
   depthDisplayMode: 'clamp',
   watermark: 'LOU.WTF',
+  animationFrames: 10,
+  animationFrameDelay: 100,
+  animationFormat: 'gif',
+  seizureWarningAccepted: false,
   gradientColor1: initialGradientColors.color1,
   gradientColor2: initialGradientColors.color2,
   gradientColor3: initialGradientColors.color3,
+  depthModel: {
+    model: 'onnx-community/depth-anything-v2-small',
+    customModel: '',
+    device: 'auto',
+    dtype: 'auto',
+    modelPath: '',
+  },
   depthEstimator: null,
+  depthEstimatorKey: null,
+};
+
+// Settings saved with projects; everything else is derived or transient
+const PROJECT_SETTINGS = [
+  'disparityScale',
+  'sizePreset',
+  'outputWidth',
+  'outputHeight',
+  'usePhysicalGeometry',
+  'viewingGeometry',
+  'algorithm',
+  'viewingMethod',
+  'oversampling',
+  'selectedPattern',
+  'seamlessMode',
+  'patternScale',
+  'patternOffset',
+  'patternParams',
+  'seed',
+  'invertLoadedDepth',
+  'depthProcessing',
+  'isolateSubject',
+  'subjectIsolation',
+  'depthBrush',
+  'depthLayersOnly',
+  'depthDisplayMode',
+  'watermark',
+  'animationFrames',
+  'animationFrameDelay',
+  'animationFormat',
+  'gradientColor1',
+  'gradientColor2',
+  'gradientColor3',
+  'depthModel',
+] as const satisfies readonly (keyof AppState)[];
+
+type ProjectSettings = Pick<AppState, (typeof PROJECT_SETTINGS)[number]>;
+
+// Settings missing from older projects fall back to these
+const DEFAULT_PROJECT_SETTINGS: ProjectSettings =
+  structuredClone(getProjectSettings());
+
+// Settings kept in the URL hash, so that sharing a link shares them
+const URL_STATE_FIELDS: UrlFields<
+  Pick<
+    AppState,
+    | 'disparityScale'
+    | 'selectedPattern'
+    | 'depthDisplayMode'
+    | 'watermark'
+    | 'gradientColor1'
+    | 'gradientColor2'
+    | 'gradientColor3'
+    | 'displayMode'
+    | 'viewingMethod'
+    | 'seed'
+  >
+> = {
+  disparityScale: numberField(0.1, 1.75),
+  // Uploaded patterns can't be shared this way
+  selectedPattern: oneOfField(() => [
+    ...PRESET_PATTERNS.map(({url}) => url),
+    ...getPatternGenerators().map(({id}) => id),
+  ]),
+  depthDisplayMode: oneOfField(['clamp', 'cutout', 'popout']),
+  watermark: stringField(100),
+  gradientColor1: colorField,
+  gradientColor2: colorField,
+  gradientColor3: colorField,
+  displayMode: oneOfField(DISPLAY_MODES.map(({id}) => id)),
+  viewingMethod: oneOfField(['divergent', 'convergent']),
+  seed: uint32Field,
+};
+
+// How project settings are checked when a project is opened, with the same
+// limits as their controls. Pattern parameters are checked against each
+// generator's schema instead.
+const PROJECT_SETTING_FIELDS: SettingFields<
+  Omit<ProjectSettings, 'patternParams'>
+> = {
+  disparityScale: URL_STATE_FIELDS.disparityScale,
+  sizePreset: oneOfField([
+    ...SIZE_PRESETS.map(({id}) => id),
+    'source',
+    'custom',
+  ]),
+  outputWidth: integerField(256, 8192),
+  outputHeight: integerField(256, 8192),
+  usePhysicalGeometry: booleanField,
+  viewingGeometry: {
+    dpi: numberField(50, 1200),
+    eyeSeparationMm: numberField(45, 80),
+    viewingDistanceMm: numberField(200, 3000),
+    depthOfFieldMm: numberField(10, 3000),
+  },
+  algorithm: oneOfField(['left-to-right', 'symmetric']),
+  viewingMethod: URL_STATE_FIELDS.viewingMethod,
+  oversampling: oneOfField([1, 2, 4, 8]),
+  // Projects can carry their uploaded pattern
+  selectedPattern: {
+    ...URL_STATE_FIELDS.selectedPattern,
+    parse: (value) =>
+      value === 'custom'
+        ? value
+        : URL_STATE_FIELDS.selectedPattern.parse(value),
+  },
+  seamlessMode: oneOfField(['off', 'mirror', 'blend']),
+  patternScale: numberField(0.1, 1),
+  patternOffset: numberField(0, 1),
+  seed: URL_STATE_FIELDS.seed,
+  invertLoadedDepth: booleanField,
+  depthProcessing: {
+    smoothing: oneOfField(['none', 'gaussian', 'bilateral']),
+    smoothingRadius: numberField(0.5, 10),
+    edgeThreshold: numberField(0.01, 0.5),
+    blackPoint: numberField(0, 1),
+    whitePoint: numberField(0, 1),
+    gamma: numberField(0.2, 5),
+    layers: integerField(0, 32),
+    invert: booleanField,
+  },
+  isolateSubject: booleanField,
+  subjectIsolation: {
+    threshold: numberField(0.01, 0.99),
+    feather: numberField(0, 20),
+  },
+  depthBrush: {
+    tool: oneOfField(['closer', 'farther', 'smooth', 'flatten', 'erase']),
+    radius: numberField(2, 300),
+    strength: numberField(0.01, 1),
+  },
+  depthLayersOnly: booleanField,
+  depthDisplayMode: URL_STATE_FIELDS.depthDisplayMode,
+  watermark: URL_STATE_FIELDS.watermark,
+  animationFrames: integerField(2, 30),
+  animationFrameDelay: numberField(40, 1000),
+  animationFormat: oneOfField(['gif', 'apng']),
+  gradientColor1: colorField,
+  gradientColor2: colorField,
+  gradientColor3: colorField,
+  depthModel: {
+    model: oneOfField([...DEPTH_MODELS.map(({id}) => id), 'custom']),
+    customModel: stringField(1000),
+    device: oneOfField(['auto', 'wasm', 'webgpu']),
+    dtype: oneOfField(['auto', 'fp32', 'fp16', 'q8']),
+    modelPath: stringField(1000),
+  },
 };
 
+const autostereogramRenderer = new AutostereogramRenderer();
+
+// Kept separate so exporting doesn't cancel the live preview, and vice versa
+const animationRenderer = new AutostereogramRenderer();
+
 /**
  * Generates an autostereogram from the current depth image and pattern
  */
 async function generateAutostereogram(): Promise<void> {
-  if (!appState.currentDepth || appState.isProcessing) {
+  const depth = appState.currentDepth;
+  if (!depth) {
     return;
   }
 
-  appState.isProcessing = true;
+  // Newer requests supersede older ones; anything still in flight is cancelled
+  // so that we always converge on the latest settings.
+  const generationId = ++appState.latestGenerationId;
+  autostereogramRenderer.cancel();
+
+  setGenerationProgress(0);
   show('generating-autostereogram');
   show('messages');
   hide('canvas');
-  hide('depth-canvas');
+  // Keep the depth map up while it's being painted on
+  if (!appState.depthBrushEnabled) {
+    hide('depth-canvas');
+  }
 
   const canvasElement = document.getElementById('canvas') as HTMLCanvasElement;
   const hiddenImageCanvas = new OffscreenCanvas(
@@ -152,110 +497,406 @@ async function generateAutostereogram(): Promise<void> {
     canvasElement.height,
   );
 
-  const minDisparity = Math.floor(hiddenImageCanvas.width * 0.15);
-  const maxDisparity = Math.floor(hiddenImageCanvas.width * 0.2);
+  const {minDisparity, maxDisparity, disparityScale} = getDisparities(
+    hiddenImageCanvas.width,
+  );
   const tileWidth = minDisparity;
 
-  // Load the pattern image
-  let patternImage: HTMLCanvasElement;
+  let output: ImageDataLike | null;
+  try {
+    const patternImage = await loadPatternImage();
+    const pattern = createPatternStrip(
+      patternImage,
+      tileWidth,
+      hiddenImageCanvas.width,
+      hiddenImageCanvas.height,
+      getPatternStripOptions(),
+    );
+
+    if (generationId !== appState.latestGenerationId) {
+      return;
+    }
+
+    output = await autostereogramRenderer.render(
+      {
+        depth,
+        pattern,
+        width: hiddenImageCanvas.width,
+        height: hiddenImageCanvas.height,
+        minDisparity,
+        maxDisparity,
+        disparityScale,
+        algorithm: appState.algorithm,
+        viewingMethod: appState.viewingMethod,
+        oversampling: appState.oversampling,
+      },
+      (rowsDone) => {
+        setGenerationProgress(rowsDone / hiddenImageCanvas.height);
+      },
+    );
+  } catch (error) {
+    if (generationId === appState.latestGenerationId) {
+      handleGenerationError(error);
+    }
+    return;
+  }
+
+  if (!output) {
+    // Cancelled in favor of a newer request
+    return;
+  }
+
+  // Store the autostereogram image data in app state
+  appState.autostereogramImageData = new ImageData(
+    output.data,
+    output.width,
+    output.height,
+  );
+
+  // Display the appropriate canvas based on current setting
+  updateCanvasDisplay();
+
+  hide('messages');
+  hide('generating-autostereogram');
+}
+
+/**
+ * Reports a failed autostereogram, e.g. a pattern image that won't load, and
+ * puts back what was on screen before
+ */
+function handleGenerationError(error: unknown): void {
+  console.error(error);
+  hide('generating-autostereogram');
+  hide('messages');
+  updateCanvasDisplay();
+  appState.gui?.show();
+  alert(
+    `Couldn't generate the autostereogram: ${error instanceof Error ? error.message : String(error)}`,
+  );
+}
+
+/**
+ * Loads or generates the selected pattern image; generated patterns are drawn
+ * from `seed`
+ */
+async function loadPatternImage(
+  seed = appState.seed,
+): Promise<HTMLCanvasElement | OffscreenCanvas> {
   if (appState.customPatternFile) {
     const patternImageUrl = URL.createObjectURL(appState.customPatternFile);
-    patternImage = (await RawImage.fromURL(patternImageUrl)).toCanvas();
+    const patternImage = (await RawImage.fromURL(patternImageUrl)).toCanvas();
     URL.revokeObjectURL(patternImageUrl);
-  } else if (appState.selectedPattern === 'confetti') {
-    patternImage = generateConfettiPattern(
-      appState.gradientColor1,
-      appState.gradientColor2,
-      appState.gradientColor3,
-    );
-  } else if (appState.selectedPattern === 'sprinkles') {
-    patternImage = generateSprinklesPattern(
-      appState.gradientColor1,
-      appState.gradientColor2,
-      appState.gradientColor3,
-    );
-  } else if (appState.selectedPattern === 'noise') {
-    patternImage = generateNoisePattern(
-      appState.gradientColor1,
-      appState.gradientColor2,
-      appState.gradientColor3,
+    return updatePatternSeam(
+      applySeamlessMode(patternImage, appState.seamlessMode),
     );
+  }
+
+  const generator = getPatternGenerator(appState.selectedPattern);
+  if (generator) {
+    return generatePattern(generator, seed);
   } else {
-    patternImage = (
+    const patternImage = (
       await RawImage.fromURL(appState.selectedPattern)
     ).toCanvas();
+    return updatePatternSeam(
+      applySeamlessMode(patternImage, appState.seamlessMode),
+    );
   }
-  const patternCanvas = new OffscreenCanvas(tileWidth, canvasElement.height);
-  fillImage(patternImage, patternCanvas, tileWidth);
-  {
-    const ctx = patternCanvas.getContext('2d')!;
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
-    ctx.strokeStyle = 'rgba(0, 0, 0, 0.75)';
-    ctx.lineWidth = 1;
-    {
-      ctx.font =
-        '800 18px "Arial Black", "Helvetica Black", "Helvetica Neue", Helvetica, Arial, sans-serif';
+}
 
-      const stringWidth = ctx.measureText(appState.watermark).width;
-      ctx.fillText(appState.watermark, 0, 40);
-      ctx.strokeText(appState.watermark, 0, 40);
+/**
+ * Measures the seam an image pattern tiles with, so the controls can show how
+ * well the seamless mode hides it
+ */
+function updatePatternSeam<T extends HTMLCanvasElement | OffscreenCanvas>(
+  image: T,
+): T {
+  const ctx = image.getContext('2d') as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D;
+  const seam = measureSeam(
+    new PixelGrid(ctx.getImageData(0, 0, image.width, image.height)),
+  );
+  if (seam !== appState.patternSeam) {
+    appState.patternSeam = seam;
+    appState.updatePatternControls?.();
+  }
+  return image;
+}
 
-      ctx.fillText(
-        appState.watermark,
-        tileWidth - stringWidth,
-        canvasElement.height - 40,
-      );
-      ctx.strokeText(
-        appState.watermark,
-        tileWidth - stringWidth,
-        canvasElement.height - 40,
-      );
-    }
+/**
+ * Runs a pattern generator with its current parameters and the gradient colors.
+ * The last tile is reused while none of its inputs change, since depth and
+ * layout edits re-render without touching the pattern.
+ */
+function generatePattern(
+  generator: PatternGenerator,
+  seed: number,
+): HTMLCanvasElement | OffscreenCanvas {
+  const gradientColors: [string, string, string] = [
+    appState.gradientColor1,
+    appState.gradientColor2,
+    appState.gradientColor3,
+  ];
+  const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+  const key = JSON.stringify([
+    generator.id,
+    getPatternParams(generator),
+    seed,
+    gradientColors,
+    prefersDark,
+  ]);
+  const sourcePhoto = getSourcePhoto();
+  if (
+    lastGeneratedPattern?.key === key &&
+    lastGeneratedPattern.sourcePhoto === sourcePhoto
+  ) {
+    return lastGeneratedPattern.image;
   }
 
-  const pattern = new PixelGrid(
-    patternCanvas
-      .getContext('2d')!
-      .getImageData(0, 0, patternCanvas.width, patternCanvas.height),
+  const image = generator.generate(
+    getPatternParams(generator),
+    seed,
+    PATTERN_SIZE,
+    {
+      gradientColors,
+      prefersDark,
+      getSourceImage: () => {
+        if (!sourcePhoto) {
+          return null;
+        }
+        const canvas: HTMLCanvasElement | OffscreenCanvas =
+          sourcePhotoCanvases.get(sourcePhoto) ?? sourcePhoto.toCanvas();
+        sourcePhotoCanvases.set(sourcePhoto, canvas);
+        return canvas;
+      },
+    },
   );
+  lastGeneratedPattern = {key, sourcePhoto, image};
+  return image;
+}
 
-  const outputCanvas = new OffscreenCanvas(
-    hiddenImageCanvas.width,
-    hiddenImageCanvas.height,
-  );
+// The most recently generated pattern tile and what it was generated from
+let lastGeneratedPattern: {
+  key: string;
+  sourcePhoto: RawImage | null;
+  image: HTMLCanvasElement | OffscreenCanvas;
+} | null = null;
 
-  fillImage(patternCanvas, outputCanvas, tileWidth);
+// Photos drawn onto canvases for the Photo pattern, kept so that animation
+// frames don't each copy the photo again
+const sourcePhotoCanvases = new WeakMap<
+  RawImage,
+  HTMLCanvasElement | OffscreenCanvas
+>();
 
-  const output = new PixelGrid(
-    outputCanvas
-      .getContext('2d')!
-      .getImageData(0, 0, outputCanvas.width, outputCanvas.height),
-  );
+// The files photos were chosen from, so that projects save them as they were
+// instead of re-encoding them
+const sourcePhotoFiles = new WeakMap<RawImage, Blob>();
+
+/**
+ * Decodes a photo, remembering the file it came from
+ */
+async function loadPhoto(file: Blob): Promise<RawImage> {
+  const photo = await RawImage.fromBlob(file);
+  sourcePhotoFiles.set(photo, file);
+  return photo;
+}
+
+/**
+ * The photo behind the current depth, if any. A loaded depth map without a
+ * paired color image stands in as its own source image, but painting the
+ * pattern with it would give the hidden shape away.
+ */
+function getSourcePhoto(): RawImage | null {
+  if (appState.loadedDepthMap && !appState.loadedDepthColorImage) {
+    return null;
+  }
+  return appState.currentImage;
+}
+
+/**
+ * The current parameter values for a generator, starting from its defaults
+ */
+function getPatternParams(
+  generator: PatternGenerator,
+): Record<string, PatternParameterValue> {
+  return (appState.patternParams[generator.id] ??=
+    defaultPatternParams(generator));
+}
+
+/**
+ * Renders an animation whose pattern is re-randomized every frame while the
+ * hidden depth stays still, then downloads it
+ */
+async function exportAnimation(): Promise<void> {
+  const depth = appState.currentDepth;
+  if (!depth || !(await confirmSeizureWarning())) {
+    return;
+  }
+
+  const canvasElement = document.getElementById('canvas') as HTMLCanvasElement;
+  const {width, height} = canvasElement;
+  const {minDisparity, maxDisparity, disparityScale} = getDisparities(width);
+  const frameCount = appState.animationFrames;
 
-  // Generate the autostereogram
-  for (let y = 0; y < output.height; ++y) {
-    for (let x = 0; x < output.width; ++x) {
-      const disparity = appState.currentDepth.get(x, y)[0] / 255;
-      const offset = Math.floor(
-        disparity * (maxDisparity - minDisparity) * appState.disparityScale,
+  show('messages');
+  show('generating-animation');
+
+  let blob: Blob;
+  try {
+    const frames: ImageDataLike[] = [];
+    for (let i = 0; i < frameCount; ++i) {
+      setMessage(
+        'generating-animation',
+        `Rendering frame ${i + 1} of ${frameCount}...`,
       );
-      if (x < minDisparity) {
-        output.set(x, y, pattern.get((x + offset) % minDisparity, y));
-      } else {
-        output.set(x, y, output.get(x + offset - minDisparity, y));
+
+      // Each frame gets its own seed so its dots are fresh, yet the whole
+      // animation is reproducible. Fixed images can't shimmer, so fall back to
+      // noise for those.
+      const seed = (appState.seed + i) >>> 0;
+      const patternImage =
+        !appState.customPatternFile &&
+        isGeneratedPattern(appState.selectedPattern)
+          ? await loadPatternImage(seed)
+          : generatePattern(getPatternGenerator('noise')!, seed);
+
+      const frame = await animationRenderer.render({
+        depth,
+        pattern: createPatternStrip(
+          patternImage,
+          minDisparity,
+          width,
+          height,
+          getPatternStripOptions(),
+        ),
+        width,
+        height,
+        minDisparity,
+        maxDisparity,
+        disparityScale,
+        algorithm: appState.algorithm,
+        viewingMethod: appState.viewingMethod,
+        oversampling: appState.oversampling,
+      });
+      if (!frame) {
+        return;
       }
+      frames.push(frame);
     }
+
+    setMessage('generating-animation', 'Encoding animation...');
+    blob = await encodeAnimation(
+      frames,
+      appState.animationFormat,
+      appState.animationFrameDelay,
+    );
+  } catch (error) {
+    console.error(error);
+    alert(
+      `Couldn't export the animation: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  } finally {
+    hide('generating-animation');
+    hide('messages');
   }
 
-  // Store the autostereogram image data in app state
-  appState.autostereogramImageData = output.imageData;
+  downloadBlob(
+    blob,
+    `autostereogram-animated${viewingMethodSuffix()}-${appState.seed}.${ANIMATION_FILE_EXTENSIONS[appState.animationFormat]}`,
+  );
+}
 
-  // Display the appropriate canvas based on current setting
-  updateCanvasDisplay();
+/**
+ * Shows the seizure warning unless it was already accepted, and resolves with
+ * whether the user chose to continue
+ */
+async function confirmSeizureWarning(): Promise<boolean> {
+  if (appState.seizureWarningAccepted) {
+    return true;
+  }
+
+  show('messages');
+  show('warning');
+
+  const controller = new AbortController();
+  const {signal} = controller;
+  const accepted = await new Promise<boolean>((resolve) => {
+    document
+      .getElementById('run-demo')!
+      .addEventListener('click', () => resolve(true), {signal});
+    document
+      .getElementById('exit-demo')!
+      .addEventListener('click', () => resolve(false), {signal});
+  });
+  controller.abort();
 
-  appState.isProcessing = false;
+  hide('warning');
   hide('messages');
-  hide('generating-autostereogram');
+
+  appState.seizureWarningAccepted = accepted;
+  return accepted;
+}
+
+/**
+ * Checks if the selected pattern is a generated pattern
+ */
+function isGeneratedPattern(pattern: string): boolean {
+  return getPatternGenerator(pattern) !== undefined;
+}
+
+/**
+ * Marks files saved for cross-eyed viewing, since they look inside out when
+ * viewed wall-eyed
+ */
+function viewingMethodSuffix(): string {
+  return appState.viewingMethod === 'convergent' ? '-cross-eyed' : '';
+}
+
+/**
+ * Points the viewing tips at the section for the current viewing method
+ */
+function updateViewingTipsLink(): void {
+  const link = document.getElementById(
+    'viewing-tips-link',
+  ) as HTMLAnchorElement;
+  link.hash =
+    appState.viewingMethod === 'convergent'
+      ? 'cross-eyed-viewing'
+      : 'viewing-tips';
+}
+
+/**
+ * Computes the stereo separation bounds for an output `width` pixels wide,
+ * either relative to the width or from the physical viewing geometry
+ */
+function getDisparities(width: number): {
+  minDisparity: number;
+  maxDisparity: number;
+  disparityScale: number;
+} {
+  if (appState.usePhysicalGeometry) {
+    return physicalDisparities(
+      appState.viewingGeometry,
+      appState.disparityScale,
+      appState.viewingMethod,
+    );
+  }
+
+  return relativeDisparities(width, appState.disparityScale);
+}
+
+/**
+ * How the pattern is laid out in the strip, and the watermark stamped on it
+ */
+function getPatternStripOptions(): PatternStripOptions {
+  return {
+    scale: appState.patternScale,
+    offset: appState.patternOffset,
+    watermark: appState.watermark,
+  };
 }
 
 /**
@@ -266,21 +907,19 @@ function updateCanvasDisplay(): void {
     return; // No depth data available yet
   }
 
+  if (appState.wiggleTimer) {
+    clearInterval(appState.wiggleTimer);
+    appState.wiggleTimer = null;
+  }
+
   switch (appState.displayMode) {
     case 'depth-map': {
       hide('canvas');
       show('depth-canvas');
 
-      // Regenerate depth canvas with current display mode and copy to visible
-      // canvas
+      // Regenerate depth canvas with current display mode, which also copies it
+      // to the visible canvas
       regenerateDepthCanvasInternal();
-
-      // Copy depth map to the visible canvas
-      const depthCanvasElement = document.getElementById(
-        'depth-canvas',
-      ) as HTMLCanvasElement;
-      const ctx = depthCanvasElement.getContext('2d')!;
-      ctx.putImageData(appState.currentDepth.imageData, 0, 0);
       break;
     }
 
@@ -304,6 +943,43 @@ function updateCanvasDisplay(): void {
       break;
     }
 
+    case 'anaglyph':
+    case 'side-by-side':
+    case 'cross-eyed': {
+      hide('depth-canvas');
+      show('canvas');
+
+      const pair = getStereoPair(appState.displayMode);
+      if (pair) {
+        const canvasElement = document.getElementById(
+          'canvas',
+        ) as HTMLCanvasElement;
+        const ctx = canvasElement.getContext('2d')!;
+        ctx.clearRect(0, 0, canvasElement.width, canvasElement.height);
+        drawImageCentered(imageDataToCanvas(pair), canvasElement);
+      }
+      break;
+    }
+
+    case 'wiggle': {
+      hide('depth-canvas');
+      show('canvas');
+
+      const frames = getWiggleFrames();
+      if (frames) {
+        const ctx = (
+          document.getElementById('canvas') as HTMLCanvasElement
+        ).getContext('2d')!;
+        let frame = 0;
+        ctx.putImageData(frames[frame]!, 0, 0);
+        appState.wiggleTimer = setInterval(() => {
+          frame = (frame + 1) % frames.length;
+          ctx.putImageData(frames[frame]!, 0, 0);
+        }, WIGGLE_FRAME_DELAY);
+      }
+      break;
+    }
+
     case 'autostereogram':
     default: {
       hide('depth-canvas');
@@ -323,166 +999,1422 @@ function updateCanvasDisplay(): void {
 }
 
 /**
- * Regenerates the depth canvas with the current depth display mode
+ * The source image and the hidden depth, both at the output size and lined up
+ * with each other, for synthesizing views of the photo from other viewpoints
  */
-function regenerateDepthCanvas(): void {
-  if (!appState.originalDepthEstimation || !appState.currentDepth) {
-    return; // No depth estimation data available
+function getStereoSource(): {image: ImageData; depth: DepthMap} | null {
+  const {currentImage, currentDepth} = appState;
+  if (!currentImage || !currentDepth) {
+    return null;
   }
 
-  regenerateDepthCanvasInternal();
+  // Place the image where the depth estimation of it went
+  const {width, height} = currentDepth;
+  const {left, top, scale} = depthPlacement(
+    currentImage,
+    width,
+    height,
+    appState.depthDisplayMode,
+  );
+  const imageWidth = currentImage.width * scale;
+  const imageHeight = currentImage.height * scale;
+  const source = currentImage.toCanvas();
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'black';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, left, top, imageWidth, imageHeight);
+
+  // The depth stretches its edge columns out to the sides, so the image does
+  // too
+  if (appState.depthDisplayMode === 'clamp') {
+    const right = left + imageWidth;
+    ctx.drawImage(source, 0, 0, 1, source.height, 0, top, left, imageHeight);
+    ctx.drawImage(
+      source,
+      source.width - 1,
+      0,
+      1,
+      source.height,
+      right,
+      top,
+      width - right,
+      imageHeight,
+    );
+  }
 
-  // Regenerate the autostereogram with the new depth data
-  generateAutostereogram();
+  return {image: ctx.getImageData(0, 0, width, height), depth: currentDepth};
 }
 
 /**
- * Internal function to regenerate the depth canvas without triggering
- * autostereogram generation
+ * The photo as seen by both eyes, combined for the given layout
  */
-function regenerateDepthCanvasInternal(): void {
-  if (!appState.originalDepthEstimation) {
-    return; // No depth estimation data available
+function getStereoPair(layout: StereoPairLayout): ImageData | null {
+  const source = getStereoSource();
+  if (!source) {
+    return null;
   }
 
-  const canvasElement = document.getElementById('canvas') as HTMLCanvasElement;
-  const hiddenImageCanvas = new OffscreenCanvas(
-    canvasElement.width,
-    canvasElement.height,
+  const {image, depth} = source;
+  return composeStereoPair(
+    synthesizeView(image, depth, -1, appState.disparityScale),
+    synthesizeView(image, depth, 1, appState.disparityScale),
+    layout,
   );
-  const hiddenImageCtx = hiddenImageCanvas.getContext('2d')!;
+}
 
-  // Clear the canvas with appropriate background based on depth display mode
-  if (appState.depthDisplayMode === 'popout') {
-    hiddenImageCtx.fillStyle = 'black';
-  } else if (appState.depthDisplayMode === 'cutout') {
-    hiddenImageCtx.fillStyle = 'white';
-  } else {
-    // clamp mode
-    hiddenImageCtx.fillStyle = 'black';
+/**
+ * The photo as seen from each of the wiggle's viewpoints in turn
+ */
+function getWiggleFrames(): ImageData[] | null {
+  const source = getStereoSource();
+  if (!source) {
+    return null;
   }
 
-  hiddenImageCtx.fillRect(
-    0,
-    0,
-    hiddenImageCanvas.width,
-    hiddenImageCanvas.height,
+  const {image, depth} = source;
+  const views = new Map(
+    [...new Set(WIGGLE_VIEWS)].map((eye) => [
+      eye,
+      synthesizeView(image, depth, eye, appState.disparityScale),
+    ]),
   );
+  return WIGGLE_VIEWS.map((eye) => views.get(eye)!);
+}
 
-  // Get the original depth estimation result
-  const depthCanvas =
-    appState.originalDepthEstimation.toCanvas() as OffscreenCanvas;
+function imageDataToCanvas(imageData: ImageData): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(imageData.width, imageData.height);
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return canvas;
+}
 
-  // Draw the depth image centered on the canvas with current depth display mode
-  drawImageCentered(depthCanvas, hiddenImageCanvas, appState.depthDisplayMode);
+/**
+ * The pipeline for the selected model settings. Only one is kept: switching
+ * settings disposes of the previous pipeline once it's done loading, and a
+ * failed load is forgotten so that it can be retried.
+ */
+function getDepthEstimator(): Promise<DepthEstimationPipeline> {
+  const key = depthEstimatorKey(appState.depthModel);
+  if (appState.depthEstimator && appState.depthEstimatorKey === key) {
+    return appState.depthEstimator;
+  }
 
-  // Update the depth data in app state
-  appState.currentDepth = new PixelGrid(
-    hiddenImageCtx.getImageData(
-      0,
-      0,
-      hiddenImageCanvas.width,
-      hiddenImageCanvas.height,
-    ),
-  );
+  const previous = appState.depthEstimator;
+  const settings = structuredClone(appState.depthModel);
+  const estimator = (async () => {
+    await previous?.then(
+      (pipeline) => pipeline.dispose(),
+      () => {},
+    );
+    return loadDepthEstimator(settings);
+  })();
+  appState.depthEstimator = estimator;
+  appState.depthEstimatorKey = key;
+
+  estimator.catch(() => {
+    if (appState.depthEstimator === estimator) {
+      appState.depthEstimator = null;
+      appState.depthEstimatorKey = null;
+    }
+  });
+  return estimator;
 }
 
 /**
- * Sets up the Advanced GUI controls
+ * Estimates depth for an image with the selected model, (re)loading the model
+ * first if its settings changed. Resolves with `null` if the settings change
+ * again before it's done, as the estimate with the newer settings takes over.
  */
-function setupGUI(): void {
-  const gui = new GUI();
-  gui.close();
-  gui.title('Advanced controls');
-
-  // Hide the GUI initially
-  gui.hide();
+async function estimateDepth(image: RawImage): Promise<DepthMap | null> {
+  const key = depthEstimatorKey(appState.depthModel);
+  const isStale = () => depthEstimatorKey(appState.depthModel) !== key;
+
+  let depth: DepthMap;
+  try {
+    if (appState.depthEstimatorKey !== key) {
+      show('loader');
+    }
+    const estimator = await getDepthEstimator();
+    if (isStale()) {
+      return null;
+    }
+    hide('loader');
 
-  // Store GUI reference in app state
-  appState.gui = gui;
+    show('loading-depth-estimation');
+    const {predicted_depth} = (await estimator(
+      image,
+    )) as DepthEstimationPipelineOutput;
+    depth = predictionToDepthMap(predicted_depth);
+  } catch (error) {
+    // A pipeline replaced mid-estimate may be disposed under it
+    if (isStale()) {
+      return null;
+    }
+    hide('loader');
+    hide('loading-depth-estimation');
+    throw error;
+  }
+
+  if (isStale()) {
+    return null;
+  }
+  hide('loading-depth-estimation');
+  return depth;
+}
+
+/**
+ * Reports a depth model that failed to load or run, such as a mistyped custom
+ * model ID
+ */
+function reportDepthEstimationError(error: unknown): void {
+  console.error(error);
+  alert(
+    `Couldn't estimate depth: ${error instanceof Error ? error.message : String(error)}`,
+  );
+}
+
+/**
+ * Re-estimates depth for the current photo, e.g. after switching models.
+ * User-supplied depth maps are left alone.
+ */
+async function reestimateDepth(): Promise<void> {
+  const image = appState.currentImage;
+  if (!image || appState.loadedDepthMap) {
+    return;
+  }
+
+  show('messages');
+  let depth: DepthMap | null;
+  try {
+    depth = await estimateDepth(image);
+  } catch (error) {
+    hide('messages');
+    reportDepthEstimationError(error);
+    return;
+  }
+  if (!depth || image !== appState.currentImage) {
+    return; // Newer settings or a different photo took over in the meantime
+  }
+  await showDepthEstimation(depth);
+}
+
+/**
+ * Uses `depth` as the hidden image, then reveals the controls once the first
+ * autostereogram is ready
+ */
+async function showDepthEstimation(
+  depth: DepthMap,
+  /** Brush edits painted on this depth before, e.g. in a saved project */
+  depthEdits: DepthEdits | null = null,
+): Promise<void> {
+  // Store the original depth estimation for later regeneration
+  appState.originalDepthEstimation = depth;
+  appState.depthEdits = depthEdits;
+  appState.depthEditsPlacement = null;
+  await updateSubjectMask();
+  regenerateDepthCanvasInternal();
+
+  // Generate the initial autostereogram
+  await generateAutostereogram();
+
+  // Show the GUI controls and buttons now that we have an image
+  appState.gui?.show();
+  appState.updatePatternControls?.();
+  appState.updateDepthMapControls?.();
+  updateViewingTipsLink();
+  show('viewing-tips-link');
+  show('magic-mirror-link');
+  show('save-image-button');
+  show('choose-another-photo-button');
+}
+
+/**
+ * Converts the user-supplied depth map into the depth image used for display,
+ * and picks what the "Source image" display mode shows: the paired color image
+ * if there is one, otherwise the depth map itself
+ */
+function applyLoadedDepthMap(): DepthMap | null {
+  const map = appState.loadedDepthMap;
+  if (!map) {
+    return null;
+  }
+
+  const depth = appState.invertLoadedDepth
+    ? {...map, data: map.data.map((value) => 1 - value)}
+    : map;
+  appState.currentImage =
+    appState.loadedDepthColorImage ?? depthMapToRawImage(depth);
+  return depth;
+}
+
+/**
+ * Regenerates the depth canvas with the current depth display mode
+ */
+function regenerateDepthCanvas(): void {
+  if (!appState.originalDepthEstimation || !appState.currentDepth) {
+    return; // No depth estimation data available
+  }
+
+  regenerateDepthCanvasInternal();
+
+  // Regenerate the autostereogram with the new depth data
+  generateAutostereogram();
+}
+
+/**
+ * Internal function to regenerate the depth canvas without triggering
+ * autostereogram generation
+ */
+function regenerateDepthCanvasInternal(): void {
+  if (!appState.originalDepthEstimation) {
+    return; // No depth estimation data available
+  }
+
+  const canvasElement = document.getElementById('canvas') as HTMLCanvasElement;
+  const {width, height} = canvasElement;
+
+  // Fit the processed depth into the output with the current depth display
+  // mode. Hidden messages and shapes go on top of it, or replace it.
+  const depth = appState.depthLayersOnly
+    ? createDepthMap(width, height)
+    : placeDepth(
+        getProcessedDepthEstimation()!,
+        width,
+        height,
+        appState.depthDisplayMode,
+      );
+  appState.uneditedDepth = applyDepthLayers(depth, appState.depthLayers);
+
+  // Keep the brush edits on the parts of the depth they were painted on
+  const placement = depthPlacement(
+    appState.originalDepthEstimation,
+    width,
+    height,
+    appState.depthDisplayMode,
+  );
+  const edits = appState.depthEdits;
+  const previousPlacement = appState.depthEditsPlacement;
+  if (
+    edits &&
+    previousPlacement &&
+    (edits.width !== width ||
+      edits.height !== height ||
+      previousPlacement.left !== placement.left ||
+      previousPlacement.top !== placement.top ||
+      previousPlacement.scale !== placement.scale)
+  ) {
+    appState.depthEdits = edits.resized(
+      width,
+      height,
+      previousPlacement,
+      placement,
+    );
+  }
+  appState.depthEditsPlacement = placement;
+
+  applyDepthEdits();
+}
+
+/**
+ * Applies the brush edits on top of the unedited depth, updating the current
+ * depth and the depth map on screen
+ */
+function applyDepthEdits(): void {
+  const unedited = appState.uneditedDepth;
+  const edits = appState.depthEdits;
+  if (!unedited) {
+    return;
+  }
+
+  // Edits that didn't come with a placement to follow can't be resized
+  if (
+    edits &&
+    (edits.width !== unedited.width || edits.height !== unedited.height)
+  ) {
+    appState.depthEdits = null;
+  }
+
+  if (!appState.depthEdits) {
+    appState.currentDepth = unedited;
+  } else {
+    // Reuse the edited depth's pixels while painting
+    const current = appState.currentDepth;
+    const edited =
+      current &&
+      current !== unedited &&
+      current.width === unedited.width &&
+      current.height === unedited.height
+        ? current
+        : createDepthMap(unedited.width, unedited.height);
+    appState.depthEdits.applyTo(unedited, edited);
+    appState.currentDepth = edited;
+  }
+
+  if (appState.displayMode === 'depth-map') {
+    const depthCanvasElement = document.getElementById(
+      'depth-canvas',
+    ) as HTMLCanvasElement;
+    depthCanvasElement
+      .getContext('2d')!
+      .putImageData(depthMapToImageData(appState.currentDepth), 0, 0);
+  }
+}
+
+const handleDepthChange = debounce(generateAutostereogram, 500);
+
+/**
+ * Converts a pointer position to pixels of a canvas, which is scaled to fit the
+ * window with `object-fit: contain`
+ */
+function toCanvasCoordinates(
+  canvas: HTMLCanvasElement,
+  e: MouseEvent,
+): {x: number; y: number} {
+  const rect = canvas.getBoundingClientRect();
+  const scale = Math.min(
+    rect.width / canvas.width,
+    rect.height / canvas.height,
+  );
+  return {
+    x:
+      (e.clientX - rect.left - (rect.width - canvas.width * scale) / 2) / scale,
+    y:
+      (e.clientY - rect.top - (rect.height - canvas.height * scale) / 2) /
+      scale,
+  };
+}
+
+/**
+ * The index of the depth layer under the pointer, or -1
+ */
+function depthLayerAtPointer(e: MouseEvent): number {
+  const depthCanvas = document.getElementById(
+    'depth-canvas',
+  ) as HTMLCanvasElement;
+  const {x, y} = toCanvasCoordinates(depthCanvas, e);
+  return depthLayerAt(
+    depthCanvas.getContext('2d')!,
+    appState.depthLayers,
+    depthCanvas.width,
+    depthCanvas.height,
+    x,
+    y,
+  );
+}
+
+/**
+ * Lets depth layers be dragged around the depth map while it's displayed
+ */
+function setupDepthLayerDragging(): void {
+  const depthCanvas = document.getElementById(
+    'depth-canvas',
+  ) as HTMLCanvasElement;
+  let drag: {layer: DepthLayer; offsetX: number; offsetY: number} | null = null;
+
+  depthCanvas.addEventListener('pointerdown', (e) => {
+    if (appState.depthBrushEnabled) {
+      return;
+    }
+
+    const layer = appState.depthLayers[depthLayerAtPointer(e)];
+    if (!layer) {
+      return;
+    }
+
+    depthCanvas.setPointerCapture(e.pointerId);
+    const {x, y} = toCanvasCoordinates(depthCanvas, e);
+    drag = {
+      layer,
+      offsetX: layer.x - x / depthCanvas.width,
+      offsetY: layer.y - y / depthCanvas.height,
+    };
+  });
+
+  depthCanvas.addEventListener('pointermove', (e) => {
+    if (!drag || !depthCanvas.hasPointerCapture(e.pointerId)) {
+      return;
+    }
+
+    const {x, y} = toCanvasCoordinates(depthCanvas, e);
+    drag.layer.x = x / depthCanvas.width + drag.offsetX;
+    drag.layer.y = y / depthCanvas.height + drag.offsetY;
+    regenerateDepthCanvasInternal();
+    appState.gui
+      ?.controllersRecursive()
+      .forEach((controller) => controller.updateDisplay());
+  });
+
+  const endDrag = (e: PointerEvent) => {
+    if (!drag || !depthCanvas.hasPointerCapture(e.pointerId)) {
+      return;
+    }
+    depthCanvas.releasePointerCapture(e.pointerId);
+    drag = null;
+    handleDepthChange();
+  };
+  depthCanvas.addEventListener('pointerup', endDrag);
+  depthCanvas.addEventListener('pointercancel', endDrag);
+}
+
+/**
+ * Rasterizes an uploaded image for use as a silhouette. SVGs without a size of
+ * their own are drawn at a reasonable default size.
+ */
+async function loadSilhouette(file: Blob): Promise<OffscreenCanvas> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const scale = 1024 / (image.naturalHeight || 1024);
+    const canvas = new OffscreenCanvas(
+      Math.round((image.naturalWidth || 1024) * scale),
+      Math.round((image.naturalHeight || 1024) * scale),
+    );
+    canvas
+      .getContext('2d')!
+      .drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Adds a depth layer, with controls to edit it
+ */
+function addDepthLayer(layer: DepthLayer): void {
+  appState.depthLayers.push(layer);
+  appState.updateDepthLayerControls?.();
+  regenerateDepthCanvas();
+}
+
+/**
+ * Lets the depth brush paint on the depth map while it's displayed
+ */
+function setupDepthBrush(): void {
+  const depthCanvas = document.getElementById(
+    'depth-canvas',
+  ) as HTMLCanvasElement;
+
+  const paint = (e: PointerEvent) => {
+    const {x, y} = toCanvasCoordinates(depthCanvas, e);
+    appState.depthEdits?.dab(
+      appState.uneditedDepth!,
+      x,
+      y,
+      appState.depthBrush,
+    );
+    applyDepthEdits();
+  };
+
+  depthCanvas.addEventListener('pointerdown', (e) => {
+    const unedited = appState.uneditedDepth;
+    if (!appState.depthBrushEnabled || !unedited) {
+      return;
+    }
+
+    depthCanvas.setPointerCapture(e.pointerId);
+    appState.depthEdits ??= new DepthEdits(unedited.width, unedited.height);
+    const {x, y} = toCanvasCoordinates(depthCanvas, e);
+    appState.depthEdits.beginStroke(unedited, x, y);
+    paint(e);
+  });
+
+  depthCanvas.addEventListener('pointermove', (e) => {
+    if (depthCanvas.hasPointerCapture(e.pointerId)) {
+      paint(e);
+    }
+  });
+
+  const endStroke = (e: PointerEvent) => {
+    if (!depthCanvas.hasPointerCapture(e.pointerId)) {
+      return;
+    }
+    depthCanvas.releasePointerCapture(e.pointerId);
+    appState.depthEdits?.endStroke();
+    handleDepthChange();
+  };
+  depthCanvas.addEventListener('pointerup', endStroke);
+  depthCanvas.addEventListener('pointercancel', endStroke);
+
+  document.addEventListener('keydown', (e) => {
+    if (!appState.depthBrushEnabled || !(e.ctrlKey || e.metaKey)) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undoDepthEdit();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redoDepthEdit();
+    }
+  });
+}
+
+function undoDepthEdit(): void {
+  if (appState.depthEdits?.undo()) {
+    applyDepthEdits();
+    handleDepthChange();
+  }
+}
+
+function redoDepthEdit(): void {
+  if (appState.depthEdits?.redo()) {
+    applyDepthEdits();
+    handleDepthChange();
+  }
+}
+
+/**
+ * The original depth estimation with the depth processing and subject isolation
+ * applied. The result is kept until any of them changes, so switching display
+ * modes stays quick.
+ */
+function getProcessedDepthEstimation(): DepthMap | null {
+  const source = appState.originalDepthEstimation;
+  const mask = getSubjectMask();
+  if (!source || (isIdentityProcessing(appState.depthProcessing) && !mask)) {
+    return source;
+  }
+
+  // The background becomes the flat plane of the depth style
+  const background = appState.depthDisplayMode === 'cutout' ? 1 : 0;
+  const key = JSON.stringify([
+    appState.depthProcessing,
+    appState.subjectIsolation,
+    background,
+  ]);
+  if (
+    appState.processedDepth?.source !== source ||
+    appState.processedDepth.mask !== mask ||
+    appState.processedDepth.key !== key
+  ) {
+    let depth = processDepth(source, appState.depthProcessing);
+    if (mask) {
+      depth = isolateSubject(
+        depth,
+        mask,
+        appState.subjectIsolation,
+        background,
+      );
+    }
+    appState.processedDepth = {source, mask, key, depth};
+  }
+  return appState.processedDepth.depth;
+}
+
+/**
+ * The subject mask for the current photo and depth, if subject isolation is on
+ * and the mask is ready
+ */
+function getSubjectMask(): DepthMap | null {
+  const cached = appState.subjectMask;
+  return appState.isolateSubject &&
+    cached?.image === getSourcePhoto() &&
+    cached.depth === appState.originalDepthEstimation
+    ? cached.mask
+    : null;
+}
+
+/**
+ * Finds the subject of the current photo, unless it's known already. Depth maps
+ * loaded without a photo have no subject to find. If the model fails, subject
+ * isolation is switched off and the depth is used as it is.
+ */
+async function updateSubjectMask(): Promise<void> {
+  const image = getSourcePhoto();
+  const depth = appState.originalDepthEstimation;
+  if (!appState.isolateSubject || !image || !depth || getSubjectMask()) {
+    return;
+  }
+
+  show('messages');
+  show('isolating-subject');
+  let mask: DepthMap;
+  try {
+    mask = await segmentSubject(
+      image,
+      depth.width,
+      depth.height,
+      appState.depthModel.modelPath,
+    );
+  } catch (error) {
+    console.error(error);
+    alert(
+      `Couldn't find the subject: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    appState.isolateSubject = false;
+    appState.gui
+      ?.controllersRecursive()
+      .forEach((controller) => controller.updateDisplay());
+    return;
+  } finally {
+    hide('isolating-subject');
+  }
+
+  if (depth === appState.originalDepthEstimation) {
+    appState.subjectMask = {image, depth, mask};
+  }
+}
+
+/**
+ * Resolves the output size from the selected preset and resizes the visible
+ * canvases to match. Everything else reads the size back from the canvases.
+ */
+function applyOutputSize(): void {
+  const preset = SIZE_PRESETS.find(({id}) => id === appState.sizePreset);
+  if (preset) {
+    appState.outputWidth = preset.width;
+    appState.outputHeight = preset.height;
+  } else if (appState.sizePreset === 'source' && appState.currentImage) {
+    // Keep the long side at the reference width
+    const {width, height} = appState.currentImage;
+    const scale = REFERENCE_WIDTH / Math.max(width, height);
+    appState.outputWidth = Math.round(width * scale);
+    appState.outputHeight = Math.round(height * scale);
+  }
+
+  for (const id of ['canvas', 'depth-canvas'] as const) {
+    const canvas = document.getElementById(id) as HTMLCanvasElement;
+    if (
+      canvas.width !== appState.outputWidth ||
+      canvas.height !== appState.outputHeight
+    ) {
+      canvas.width = appState.outputWidth;
+      canvas.height = appState.outputHeight;
+    }
+  }
+
+  appState.gui
+    ?.controllersRecursive()
+    .forEach((controller) => controller.updateDisplay());
+}
+
+/**
+ * Applies a new output size and re-renders everything at that size
+ */
+function resizeOutput(): void {
+  applyOutputSize();
+  regenerateDepthCanvas();
+}
+
+/**
+ * Sets up the Advanced GUI controls
+ */
+function setupGUI(): void {
+  const gui = new GUI();
+  gui.close();
+  gui.title('Advanced controls');
+
+  // Hide the GUI initially
+  gui.hide();
+
+  // Store GUI reference in app state
+  appState.gui = gui;
+
+  // Keep the URL in sync with every control
+  gui.onChange(updateUrlState);
+
+  const debouncedGenerate = debounce(() => {
+    generateAutostereogram();
+  }, 1000);
+
+  // Disparity scale slider; in physical mode it picks a real depth range
+  const depthController = gui
+    .add(appState, 'disparityScale', 0.1, 1.75, 0.01)
+    .onChange(() => {
+      updateDepthName();
+      debouncedGenerate();
+    });
+
+  function updateDepthName(): void {
+    depthController.name(
+      appState.usePhysicalGeometry
+        ? `Depth (${Math.round(
+            depthRangeMm(
+              appState.viewingGeometry,
+              appState.disparityScale,
+              appState.viewingMethod,
+            ),
+          )} mm)`
+        : 'Depth',
+    );
+  }
+  updateDepthName();
+
+  // Stereogram algorithm dropdown
+  const algorithmOptions = {
+    'Left to right': 'left-to-right',
+    Symmetric: 'symmetric',
+  };
+  gui
+    .add(appState, 'algorithm', algorithmOptions)
+    .name('Algorithm')
+    .onChange(() => {
+      generateAutostereogram();
+    });
+
+  // Cross-eyed viewers need the depth relationship flipped
+  const viewingMethodOptions = {
+    'Wall-eyed': 'divergent',
+    'Cross-eyed': 'convergent',
+  };
+  gui
+    .add(appState, 'viewingMethod', viewingMethodOptions)
+    .name('Viewing')
+    .onChange(() => {
+      updateDepthName();
+      updateViewingTipsLink();
+      generateAutostereogram();
+    });
+
+  // Oversampling trades speed for smooth depth without terracing
+  const qualityOptions = {
+    Fast: 1,
+    'High (2×)': 2,
+    'Higher (4×)': 4,
+    'Best (8×)': 8,
+  };
+  gui
+    .add(appState, 'oversampling', qualityOptions)
+    .name('Quality')
+    .onChange(() => {
+      generateAutostereogram();
+    });
+
+  // Custom pattern file input
+  const customPatternInput = document.createElement('input');
+  customPatternInput.type = 'file';
+  customPatternInput.accept = 'image/*';
+  customPatternInput.style.display = 'none';
+  document.body.appendChild(customPatternInput);
+
+  customPatternInput.addEventListener('change', (e) => {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (file) {
+      appState.customPatternFile = file;
+      generateAutostereogram();
+    }
+  });
+
+  // Display mode dropdown
+  const displayModeOptions = Object.fromEntries(
+    DISPLAY_MODES.map(({name, id}) => [name, id]),
+  );
+  gui
+    .add(appState, 'displayMode', displayModeOptions)
+    .name('Display')
+    .onChange(() => {
+      updateCanvasDisplay();
+    });
+
+  // Pattern selection with custom option
+  const patternNames = PRESET_PATTERNS.reduce(
+    (acc, pattern) => {
+      acc[pattern.name] = pattern.url;
+      return acc;
+    },
+    {} as Record<string, string>,
+  );
+  for (const generator of getPatternGenerators()) {
+    patternNames[generator.label] = generator.id;
+  }
+  patternNames['Upload...'] = 'custom';
+
+  gui
+    .add(appState, 'selectedPattern', patternNames)
+    .name('Pattern')
+    .onChange(() => {
+      if (appState.selectedPattern === 'custom') {
+        customPatternInput.click();
+      } else {
+        appState.customPatternFile = null;
+        generateAutostereogram();
+      }
+      updatePatternControls();
+    });
+
+  // Seed for generated patterns; the same seed and settings always produce the
+  // same image
+  const seedController = gui
+    .add(appState, 'seed')
+    .step(1)
+    .name('Seed')
+    .onFinishChange(() => {
+      generateAutostereogram();
+    });
+
+  gui
+    .add(
+      {
+        reroll: () => {
+          seedController.setValue(randomSeed());
+          generateAutostereogram();
+        },
+      },
+      'reroll',
+    )
+    .name('Reroll');
+
+  gui
+    .add(appState, 'watermark')
+    .name('Watermark')
+    .onChange(
+      debounce(() => {
+        generateAutostereogram();
+      }, 1000),
+    );
+
+  // Depth display mode dropdown
+  const depthDisplayModeOptions = {
+    Clamp: 'clamp',
+    Cutout: 'cutout',
+    Popout: 'popout',
+  };
+
+  gui
+    .add(appState, 'depthDisplayMode', depthDisplayModeOptions)
+    .name('Depth Style')
+    .onChange(regenerateDepthCanvas);
+
+  // Background removal, so only the subject stands out from a flat plane
+  const subjectFolder = gui.addFolder('Subject');
+  subjectFolder.close();
+
+  const handleSubjectChange = debounce(regenerateDepthCanvas, 300);
+  subjectFolder
+    .add(appState, 'isolateSubject')
+    .name('Remove background')
+    .onChange(async () => {
+      await updateSubjectMask();
+      regenerateDepthCanvas();
+    });
+  subjectFolder
+    .add(appState.subjectIsolation, 'threshold', 0.01, 0.99, 0.01)
+    .name('Threshold')
+    .onChange(handleSubjectChange);
+  subjectFolder
+    .add(appState.subjectIsolation, 'feather', 0, 20, 0.5)
+    .name('Feather')
+    .onChange(handleSubjectChange);
+
+  // Depth processing controls, applied on top of the original depth
+  const depthProcessingFolder = gui.addFolder('Depth processing');
+  depthProcessingFolder.close();
+
+  const handleDepthProcessingChange = debounce(regenerateDepthCanvas, 300);
+  const {depthProcessing} = appState;
+
+  depthProcessingFolder
+    .add(depthProcessing, 'smoothing', {
+      None: 'none',
+      Gaussian: 'gaussian',
+      Bilateral: 'bilateral',
+    })
+    .name('Smoothing')
+    .onChange(() => {
+      updateDepthProcessingControls();
+      handleDepthProcessingChange();
+    });
+  const smoothingRadiusController = depthProcessingFolder
+    .add(depthProcessing, 'smoothingRadius', 0.5, 10, 0.5)
+    .name('Radius')
+    .onChange(handleDepthProcessingChange);
+  const edgeThresholdController = depthProcessingFolder
+    .add(depthProcessing, 'edgeThreshold', 0.01, 0.5, 0.01)
+    .name('Edge threshold')
+    .onChange(handleDepthProcessingChange);
+  depthProcessingFolder
+    .add(depthProcessing, 'blackPoint', 0, 1, 0.01)
+    .name('Black point')
+    .onChange(handleDepthProcessingChange);
+  depthProcessingFolder
+    .add(depthProcessing, 'whitePoint', 0, 1, 0.01)
+    .name('White point')
+    .onChange(handleDepthProcessingChange);
+  depthProcessingFolder
+    .add(depthProcessing, 'gamma', 0.2, 5, 0.01)
+    .name('Gamma')
+    .onChange(handleDepthProcessingChange);
+  depthProcessingFolder
+    .add(depthProcessing, 'layers', 0, 32, 1)
+    .name('Layers (0 = smooth)')
+    .onChange(handleDepthProcessingChange);
+  depthProcessingFolder
+    .add(depthProcessing, 'invert')
+    .name('Invert')
+    .onChange(handleDepthProcessingChange);
+  depthProcessingFolder
+    .add(
+      {
+        reset: () => {
+          Object.assign(depthProcessing, DEFAULT_DEPTH_PROCESSING);
+          depthProcessingFolder
+            .controllersRecursive()
+            .forEach((controller) => controller.updateDisplay());
+          updateDepthProcessingControls();
+          regenerateDepthCanvas();
+        },
+      },
+      'reset',
+    )
+    .name('Reset');
+
+  function updateDepthProcessingControls(): void {
+    smoothingRadiusController.show(depthProcessing.smoothing !== 'none');
+    edgeThresholdController.show(depthProcessing.smoothing === 'bilateral');
+  }
+  appState.updateDepthProcessingControls = updateDepthProcessingControls;
+  updateDepthProcessingControls();
+
+  // Depth brush controls, for painting corrections onto the depth map
+  const depthBrushFolder = gui.addFolder('Depth brush');
+  depthBrushFolder.close();
+
+  depthBrushFolder
+    .add(appState, 'depthBrushEnabled')
+    .name('Paint on depth map')
+    .onChange(() => {
+      document.body.classList.toggle('depth-brush', appState.depthBrushEnabled);
+      if (appState.depthBrushEnabled) {
+        appState.displayMode = 'depth-map';
+        updateCanvasDisplay();
+        gui
+          .controllersRecursive()
+          .forEach((controller) => controller.updateDisplay());
+      }
+    });
+  depthBrushFolder
+    .add(appState.depthBrush, 'tool', {
+      'Push closer': 'closer',
+      'Push farther': 'farther',
+      Smooth: 'smooth',
+      Flatten: 'flatten',
+      Eraser: 'erase',
+    })
+    .name('Tool');
+  depthBrushFolder.add(appState.depthBrush, 'radius', 2, 300, 1).name('Radius');
+  depthBrushFolder
+    .add(appState.depthBrush, 'strength', 0.01, 1, 0.01)
+    .name('Strength');
+  depthBrushFolder.add({undoDepthEdit}, 'undoDepthEdit').name('Undo');
+  depthBrushFolder.add({redoDepthEdit}, 'redoDepthEdit').name('Redo');
+  depthBrushFolder
+    .add(
+      {
+        clearDepthEdits: () => {
+          appState.depthEdits?.clear();
+          applyDepthEdits();
+          handleDepthChange();
+        },
+      },
+      'clearDepthEdits',
+    )
+    .name('Clear edits');
+
+  // Depth layer controls, for hiding text, shapes and silhouettes
+  const layersFolder = gui.addFolder('Layers');
+  layersFolder.close();
+
+  const handleLayerChange = () => {
+    regenerateDepthCanvasInternal();
+    handleDepthChange();
+  };
+
+  layersFolder
+    .add(appState, 'depthLayersOnly')
+    .name('Layers only')
+    .onChange(regenerateDepthCanvas);
+
+  layersFolder
+    .add(
+      {
+        addText: () => {
+          addDepthLayer({
+            kind: 'text',
+            text: 'HELLO',
+            font: DEPTH_LAYER_FONTS.Heavy,
+            x: 0.5,
+            y: 0.5,
+            depth: 0.8,
+            size: 0.3,
+          });
+        },
+      },
+      'addText',
+    )
+    .name('Add text');
+  layersFolder
+    .add(
+      {
+        addShape: () => {
+          addDepthLayer({
+            kind: 'shape',
+            shape: 'ellipse',
+            aspect: 1,
+            x: 0.5,
+            y: 0.5,
+            depth: 0.8,
+            size: 0.5,
+          });
+        },
+      },
+      'addShape',
+    )
+    .name('Add shape');
+
+  const silhouetteInput = document.createElement('input');
+  silhouetteInput.type = 'file';
+  silhouetteInput.accept = 'image/png,image/svg+xml,image/webp,image/gif';
+  silhouetteInput.style.display = 'none';
+  document.body.appendChild(silhouetteInput);
+
+  silhouetteInput.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    addDepthLayer({
+      kind: 'silhouette',
+      name: file.name,
+      image: await loadSilhouette(file),
+      x: 0.5,
+      y: 0.5,
+      depth: 0.8,
+      size: 0.6,
+    });
+  });
+
+  layersFolder
+    .add({addSilhouette: () => silhouetteInput.click()}, 'addSilhouette')
+    .name('Add silhouette...');
+
+  // One folder per layer, rebuilt whenever layers are added or removed
+  let layerFolders: GUI[] = [];
+  appState.updateDepthLayerControls = () => {
+    layerFolders.forEach((folder) => folder.destroy());
+    layerFolders = appState.depthLayers.map((layer) => {
+      const folder = layersFolder.addFolder(describeDepthLayer(layer));
+
+      switch (layer.kind) {
+        case 'text':
+          folder
+            .add(layer, 'text')
+            .name('Text')
+            .onChange(() => {
+              folder.title(describeDepthLayer(layer));
+              handleLayerChange();
+            });
+          folder
+            .add(layer, 'font', DEPTH_LAYER_FONTS)
+            .name('Font')
+            .onChange(handleLayerChange);
+          break;
+        case 'shape':
+          folder
+            .add(layer, 'shape', {
+              Rectangle: 'rectangle',
+              Ellipse: 'ellipse',
+              Star: 'star',
+              Heart: 'heart',
+            })
+            .name('Shape')
+            .onChange(() => {
+              folder.title(describeDepthLayer(layer));
+              handleLayerChange();
+            });
+          folder
+            .add(layer, 'aspect', 0.2, 5, 0.01)
+            .name('Aspect ratio')
+            .onChange(handleLayerChange);
+          break;
+        case 'silhouette':
+          break;
+      }
 
-  // Disparity scale slider
-  gui
-    .add(appState, 'disparityScale', 0.1, 1.75, 0.01)
-    .name('Depth')
-    .onChange(
-      debounce(() => {
-        generateAutostereogram();
-      }, 1000),
-    );
+      folder
+        .add(layer, 'depth', 0, 1, 0.01)
+        .name('Depth')
+        .onChange(handleLayerChange);
+      folder
+        .add(layer, 'size', 0.02, 1, 0.01)
+        .name('Size')
+        .onChange(handleLayerChange);
+      folder.add(layer, 'x', 0, 1, 0.001).name('X').onChange(handleLayerChange);
+      folder.add(layer, 'y', 0, 1, 0.001).name('Y').onChange(handleLayerChange);
+      folder
+        .add(
+          {
+            remove: () => {
+              appState.depthLayers.splice(
+                appState.depthLayers.indexOf(layer),
+                1,
+              );
+              appState.updateDepthLayerControls?.();
+              regenerateDepthCanvas();
+            },
+          },
+          'remove',
+        )
+        .name('Remove');
+
+      return folder;
+    });
+  };
 
-  // Custom pattern file input
-  const customPatternInput = document.createElement('input');
-  customPatternInput.type = 'file';
-  customPatternInput.accept = 'image/*';
-  customPatternInput.style.display = 'none';
-  document.body.appendChild(customPatternInput);
+  // User-supplied depth map controls
+  const depthMapFolder = gui.addFolder('Depth map');
+  depthMapFolder.close();
 
-  customPatternInput.addEventListener('change', (e) => {
-    const file = (e.target as HTMLInputElement).files?.[0];
-    if (file) {
-      appState.customPatternFile = file;
-      generateAutostereogram();
+  depthMapFolder
+    .add(
+      {
+        loadDepthMap: () => {
+          (
+            document.getElementById('choose-a-depth-map') as HTMLInputElement
+          ).click();
+        },
+      },
+      'loadDepthMap',
+    )
+    .name('Load depth map...');
+
+  const colorImageInput = document.createElement('input');
+  colorImageInput.type = 'file';
+  colorImageInput.accept = 'image/*';
+  colorImageInput.style.display = 'none';
+  document.body.appendChild(colorImageInput);
+
+  colorImageInput.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    appState.loadedDepthColorImage = await loadPhoto(file);
+    applyLoadedDepthMap();
+    await updateSubjectMask();
+    if (appState.sizePreset === 'source') {
+      resizeOutput();
+    } else {
+      updateCanvasDisplay();
     }
   });
 
-  // Display mode dropdown
-  const displayModeOptions = {
-    Autostereogram: 'autostereogram',
-    'Depth map': 'depth-map',
-    'Source image': 'source-image',
-  };
-  gui
-    .add(appState, 'displayMode', displayModeOptions)
-    .name('Display')
+  const colorImageController = depthMapFolder
+    .add({loadColorImage: () => colorImageInput.click()}, 'loadColorImage')
+    .name('Load color image...');
+
+  const invertController = depthMapFolder
+    .add(appState, 'invertLoadedDepth')
+    .name('Invert')
     .onChange(() => {
-      updateCanvasDisplay();
+      const depth = applyLoadedDepthMap();
+      if (depth) {
+        appState.originalDepthEstimation = depth;
+        regenerateDepthCanvas();
+      }
     });
 
-  // Pattern selection with custom option
-  const patternNames = PRESET_PATTERNS.reduce(
-    (acc, pattern) => {
-      acc[pattern.name] = pattern.url;
+  // Pairing options only apply to a loaded depth map
+  appState.updateDepthMapControls = () => {
+    const hasDepthMap = appState.loadedDepthMap !== null;
+    colorImageController.show(hasDepthMap);
+    invertController.show(hasDepthMap);
+  };
+  appState.updateDepthMapControls();
+
+  // Depth estimation model controls
+  const depthModelFolder = gui.addFolder('Depth model');
+  depthModelFolder.close();
+
+  const depthModelOptions = DEPTH_MODELS.reduce(
+    (acc, model) => {
+      acc[model.name] = model.id;
       return acc;
     },
     {} as Record<string, string>,
   );
-  patternNames['Noise'] = 'noise';
-  patternNames['Upload...'] = 'custom';
-
-  gui
-    .add(appState, 'selectedPattern', patternNames)
-    .name('Pattern')
-    .onChange(() => {
-      if (appState.selectedPattern === 'custom') {
-        customPatternInput.click();
-      } else {
-        appState.customPatternFile = null;
-        generateAutostereogram();
+  depthModelOptions['Custom...'] = 'custom';
+
+  depthModelFolder
+    .add(appState.depthModel, 'model', depthModelOptions)
+    .name('Model')
+    .onFinishChange(() => {
+      customModelController.show(appState.depthModel.model === 'custom');
+      if (
+        appState.depthModel.model !== 'custom' ||
+        appState.depthModel.customModel.trim()
+      ) {
+        reestimateDepth();
       }
-      updateGradientControls();
     });
 
-  gui
-    .add(appState, 'watermark')
-    .name('Watermark')
-    .onChange(
-      debounce(() => {
-        generateAutostereogram();
-      }, 1000),
-    );
-
-  // Depth display mode dropdown
-  const depthDisplayModeOptions = {
-    Clamp: 'clamp',
-    Cutout: 'cutout',
-    Popout: 'popout',
+  const customModelController = depthModelFolder
+    .add(appState.depthModel, 'customModel')
+    .name('Model ID')
+    .onFinishChange(reestimateDepth);
+  customModelController.hide();
+
+  depthModelFolder
+    .add(appState.depthModel, 'device', {
+      Auto: 'auto',
+      WASM: 'wasm',
+      WebGPU: 'webgpu',
+    })
+    .name('Device')
+    .onFinishChange(reestimateDepth);
+
+  depthModelFolder
+    .add(appState.depthModel, 'dtype', {
+      Auto: 'auto',
+      fp32: 'fp32',
+      fp16: 'fp16',
+      q8: 'q8',
+    })
+    .name('Precision')
+    .onFinishChange(reestimateDepth);
+
+  depthModelFolder
+    .add(appState.depthModel, 'modelPath')
+    .name('Model path')
+    .onFinishChange(reestimateDepth);
+
+  // Output size controls
+  const sizeFolder = gui.addFolder('Size');
+  sizeFolder.close();
+
+  const sizePresetOptions = SIZE_PRESETS.reduce(
+    (acc, preset) => {
+      acc[preset.name] = preset.id;
+      return acc;
+    },
+    {} as Record<string, string>,
+  );
+  sizePresetOptions['Match source aspect'] = 'source';
+  sizePresetOptions['Custom'] = 'custom';
+
+  const sizePresetController = sizeFolder
+    .add(appState, 'sizePreset', sizePresetOptions)
+    .name('Preset')
+    .onChange(resizeOutput);
+
+  // Editing the dimensions directly switches to a custom size
+  const handleCustomSizeChange = () => {
+    appState.sizePreset = 'custom';
+    sizePresetController.updateDisplay();
+    resizeOutput();
+  };
+  sizeFolder
+    .add(appState, 'outputWidth', 256, 8192, 1)
+    .name('Width')
+    .onFinishChange(handleCustomSizeChange);
+  sizeFolder
+    .add(appState, 'outputHeight', 256, 8192, 1)
+    .name('Height')
+    .onFinishChange(handleCustomSizeChange);
+
+  // Physical viewing geometry controls
+  const viewingFolder = gui.addFolder('Viewing geometry');
+  viewingFolder.close();
+
+  const handleViewingChange = () => {
+    updateDepthName();
+    debouncedGenerate();
   };
 
-  gui
-    .add(appState, 'depthDisplayMode', depthDisplayModeOptions)
-    .name('Depth Style')
-    .onChange(regenerateDepthCanvas);
+  viewingFolder
+    .add(appState, 'usePhysicalGeometry')
+    .name('Physical')
+    .onChange(handleViewingChange);
+  viewingFolder
+    .add(appState.viewingGeometry, 'dpi', 50, 1200, 1)
+    .name('DPI / PPI')
+    .onChange(handleViewingChange);
+  viewingFolder
+    .add(appState.viewingGeometry, 'eyeSeparationMm', 45, 80, 1)
+    .name('Eye separation (mm)')
+    .onChange(handleViewingChange);
+  viewingFolder
+    .add(appState.viewingGeometry, 'viewingDistanceMm', 200, 3000, 10)
+    .name('Distance (mm)')
+    .onChange(handleViewingChange);
+  viewingFolder
+    .add(appState.viewingGeometry, 'depthOfFieldMm', 10, 3000, 10)
+    .name('Depth of field (mm)')
+    .onChange(handleViewingChange);
+
+  // Pattern tiling controls
+  const tilingFolder = gui.addFolder('Tiling');
+  tilingFolder.close();
+
+  const handleTilingChange = debounce(generateAutostereogram, 500);
+  // Mirroring repeats the image twice per tile, flipped, so it shows at half
+  // the size it would otherwise
+  const seamlessController = tilingFolder
+    .add(appState, 'seamlessMode', {
+      Off: 'off',
+      'Mirror (half size)': 'mirror',
+      Blend: 'blend',
+    })
+    .onChange(handleTilingChange);
+  // The tile holds a whole number of images, or its edges would not line up, so
+  // the scale steps through whole fractions of it
+  tilingFolder
+    .add(
+      appState,
+      'patternScale',
+      Object.fromEntries(
+        Array.from({length: 10}, (_, i) => [
+          i ? `1/${i + 1}` : '1',
+          1 / (i + 1),
+        ]),
+      ),
+    )
+    .name('Scale')
+    .onChange(handleTilingChange);
+  tilingFolder
+    .add(appState, 'patternOffset', 0, 1, 0.01)
+    .name('Vertical offset')
+    .onChange(handleTilingChange);
+
+  // Animated export controls
+  const animateFolder = gui.addFolder('Animate');
+  animateFolder.close();
+
+  animateFolder.add(appState, 'animationFrames', 2, 30, 1).name('Frames');
+  animateFolder
+    .add(appState, 'animationFrameDelay', 40, 1000, 10)
+    .name('Frame delay (ms)');
+  animateFolder
+    .add(appState, 'animationFormat', {GIF: 'gif', APNG: 'apng'})
+    .name('Format');
+  animateFolder
+    .add({exportAnimation}, 'exportAnimation')
+    .name('Export animation');
+
+  // Project controls
+  const projectFolder = gui.addFolder('Project');
+  projectFolder.close();
+
+  projectFolder.add({saveProject}, 'saveProject').name('Save project');
+  projectFolder
+    .add(
+      {
+        openProject: () => {
+          (
+            document.getElementById('choose-a-project') as HTMLInputElement
+          ).click();
+        },
+      },
+      'openProject',
+    )
+    .name('Open project...');
 
   // Gradient color controls (initially hidden)
   const gradientFolder = gui.addFolder('Gradient');
@@ -542,24 +2474,57 @@ function setupGUI(): void {
     )
     .name('Randomize');
 
-  // Function to check if the selected pattern is a generated pattern
-  function isGeneratedPattern(pattern: string): boolean {
-    return (
-      pattern === 'confetti' || pattern === 'sprinkles' || pattern === 'noise'
-    );
-  }
+  // Per-pattern parameters, shown only for the selected pattern
+  const handlePatternOptionChange = debounce(generateAutostereogram, 500);
+
+  const patternFolders = getPatternGenerators()
+    .filter((generator) => Object.keys(generator.parameters).length > 0)
+    .map((generator) => {
+      const folder = gui.addFolder(generator.label);
+      const params = getPatternParams(generator);
+
+      for (const [key, parameter] of Object.entries(generator.parameters)) {
+        const controller =
+          parameter.type === 'number'
+            ? folder.add(
+                params,
+                key,
+                parameter.min,
+                parameter.max,
+                parameter.step,
+              )
+            : folder.add(params, key);
+        controller.name(parameter.label).onChange(handlePatternOptionChange);
+      }
+
+      return {generator, folder};
+    });
 
-  // Function to update gradient controls visibility
-  function updateGradientControls(): void {
-    if (isGeneratedPattern(appState.selectedPattern)) {
+  // Function to update pattern controls visibility
+  function updatePatternControls(): void {
+    const generator = getPatternGenerator(appState.selectedPattern);
+    if (generator?.usesGradient) {
       gradientFolder.show();
     } else {
       gradientFolder.hide();
     }
+
+    // Only images need reworking to tile seamlessly
+    seamlessController.show(!generator);
+    seamlessController.name(
+      appState.patternSeam === null
+        ? 'Make seamless'
+        : `Make seamless (seam ${Math.round(appState.patternSeam * 100)}%)`,
+    );
+
+    for (const {generator: folderGenerator, folder} of patternFolders) {
+      folder.show(folderGenerator === generator);
+    }
   }
 
-  // Store the updateGradientControls function in app state for external access
-  appState.updateGradientControls = updateGradientControls;
+  // Store the updatePatternControls function in app state for external access
+  appState.updatePatternControls = updatePatternControls;
+  updatePatternControls();
 }
 
 // Global variable for the image chooser input
@@ -569,21 +2534,14 @@ let randomCatNumber = Math.floor(Math.random() * 9);
 async function main() {
   hide('preloader');
 
-  const hasWebGPU = navigator.gpu !== undefined;
-
-  const hasFp16 =
-    hasWebGPU &&
-    (async () => {
-      try {
-        const adapter = await navigator.gpu.requestAdapter();
-        return adapter!.features.has('shader-f16');
-      } catch {
-        return false;
-      }
-    })();
+  // Restore settings from a shared link
+  Object.assign(appState, readUrlState(window.location.hash, URL_STATE_FIELDS));
+  updateUrlState();
 
   // Setup GUI controls (initially hidden)
   setupGUI();
+  setupDepthBrush();
+  setupDepthLayerDragging();
 
   // Setup standalone button event listeners
   const saveImageButton = document.getElementById(
@@ -593,13 +2551,44 @@ async function main() {
     'choose-another-photo-button',
   ) as HTMLButtonElement;
 
-  saveImageButton.addEventListener('click', () => {
+  saveImageButton.addEventListener('click', async () => {
+    const filename =
+      appState.displayMode === 'autostereogram'
+        ? `autostereogram${viewingMethodSuffix()}-${appState.seed}`
+        : `${appState.displayMode}-${appState.seed}`;
+    switch (appState.displayMode) {
+      case 'anaglyph':
+      case 'side-by-side':
+      case 'cross-eyed': {
+        // Saved at full size, where the canvas fits both views side by side
+        const pair = getStereoPair(appState.displayMode);
+        if (pair) {
+          downloadBlob(
+            await imageDataToCanvas(pair).convertToBlob(),
+            `${filename}.png`,
+          );
+        }
+        return;
+      }
+      case 'wiggle': {
+        // The saved GIF flashes like any other exported animation
+        const frames = getWiggleFrames();
+        if (frames && (await confirmSeizureWarning())) {
+          downloadBlob(
+            await encodeAnimation(frames, 'gif', WIGGLE_FRAME_DELAY),
+            `${filename}.gif`,
+          );
+        }
+        return;
+      }
+    }
+
     const canvas =
       appState.displayMode === 'depth-map'
         ? (document.getElementById('depth-canvas') as HTMLCanvasElement)
         : (document.getElementById('canvas') as HTMLCanvasElement);
     const link = document.createElement('a');
-    link.download = `${appState.displayMode}.png`;
+    link.download = `${filename}.png`;
     link.href = canvas.toDataURL();
     link.click();
   });
@@ -627,7 +2616,7 @@ async function main() {
     const file = (e.target as HTMLInputElement).files?.[0];
     if (!file) return;
 
-    setImage(await RawImage.fromBlob(file));
+    setImage(await loadPhoto(file));
   });
 
   const randomCatButton = document.getElementById(
@@ -645,6 +2634,9 @@ async function main() {
 
   async function setImage(image: RawImage) {
     appState.currentImage = image;
+    appState.loadedDepthMap = null;
+    appState.loadedDepthColorImage = null;
+    applyOutputSize();
 
     // Hide GUI while processing new image
     appState.gui?.hide();
@@ -667,221 +2659,129 @@ async function main() {
     ctx.clearRect(0, 0, canvasElement.width, canvasElement.height);
     drawImageCentered(image.toCanvas(), canvasElement);
 
-    show('loader');
-    if (!appState.depthEstimator) {
-      appState.depthEstimator = (await pipeline(
-        'depth-estimation',
-        'onnx-community/depth-anything-v2-small',
-        {
-          dtype: hasFp16 ? 'fp16' : undefined,
-          device: hasWebGPU ? 'webgpu' : undefined,
-        },
-      )) as unknown as DepthEstimationPipeline;
+    let depth: DepthMap | null;
+    try {
+      depth = await estimateDepth(image);
+    } catch (error) {
+      hide('canvas');
+      reportDepthEstimationError(error);
+      show('image-chooser');
+      return;
     }
-    hide('loader');
-
-    show('loading-depth-estimation');
-
-    const {depth} = (await appState.depthEstimator(
-      appState.currentImage,
-    )) as DepthEstimationPipelineOutput;
-    hide('loading-depth-estimation');
-
-    // Store the original depth estimation for later regeneration
-    appState.originalDepthEstimation = depth;
+    if (depth && image === appState.currentImage) {
+      await showDepthEstimation(depth);
+    }
+  }
 
-    const hiddenImageCanvas = new OffscreenCanvas(
-      canvasElement.width,
-      canvasElement.height,
-    );
-    const hiddenImageCtx = hiddenImageCanvas.getContext('2d')!;
-    hiddenImageCtx.fillStyle = 'black';
-    hiddenImageCtx.fillRect(
-      0,
-      0,
-      hiddenImageCanvas.width,
-      hiddenImageCanvas.height,
-    );
+  const depthMapChooser = document.getElementById(
+    'choose-a-depth-map',
+  ) as HTMLInputElement;
+  const depthMapButton = document.getElementById(
+    'depth-map-button',
+  ) as HTMLButtonElement;
 
-    const depthCanvas = depth.toCanvas() as OffscreenCanvas;
+  depthMapButton.addEventListener('click', () => {
+    depthMapChooser.click();
+  });
 
-    // Draw the image centered on the canvas with current depth display mode
-    drawImageCentered(
-      depthCanvas,
-      hiddenImageCanvas,
-      appState.depthDisplayMode,
-    );
+  // Load a precomputed depth map instead of estimating one
+  depthMapChooser.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
 
-    // Store the depth data in app state
-    appState.currentDepth = new PixelGrid(
-      hiddenImageCtx.getImageData(
-        0,
-        0,
-        hiddenImageCanvas.width,
-        hiddenImageCanvas.height,
-      ),
-    );
+    appState.gui?.hide();
+    hide('image-chooser');
+    show('image-loader');
+    let map: DepthMap;
+    try {
+      map = await decodeDepthMapFile(file);
+    } catch (error) {
+      console.error(error);
+      hide('image-loader');
+      alert(`Couldn't read "${file.name}" as a depth map.`);
+      show('image-chooser');
+      if (appState.currentDepth) {
+        appState.gui?.show();
+      }
+      return;
+    }
+    appState.loadedDepthMap = map;
+    appState.loadedDepthColorImage = null;
+    hide('image-loader');
 
-    // Generate the initial autostereogram
-    await generateAutostereogram();
+    const depth = applyLoadedDepthMap()!;
+    applyOutputSize();
+    await showDepthEstimation(depth);
+  });
 
-    // Show the GUI controls and buttons now that we have an image
-    appState.gui?.show();
-    appState.updateGradientControls?.();
-    show('viewing-tips-link');
-    show('magic-mirror-link');
-    show('save-image-button');
-    show('choose-another-photo-button');
-  }
-}
+  const projectChooser = document.getElementById(
+    'choose-a-project',
+  ) as HTMLInputElement;
+  const projectButton = document.getElementById(
+    'project-button',
+  ) as HTMLButtonElement;
 
-main();
+  projectButton.addEventListener('click', () => {
+    projectChooser.click();
+  });
 
-type DepthDisplayMode = 'clamp' | 'cutout' | 'popout';
+  projectChooser.addEventListener('change', async (e) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
 
-/**
- * Draws an image centered on a canvas with the correct aspect ratio, fitting
- * the entire picture. The left and right edges of the image should fill the
- * rest of the canvas.
- */
-function drawImageCentered(
-  /** The RawImage to draw */
-  image: HTMLCanvasElement | OffscreenCanvas,
-  /** The canvas to draw on */
-  canvas: HTMLCanvasElement | OffscreenCanvas,
-  depthDisplayMode: null | DepthDisplayMode = null,
-) {
-  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
-
-  // Get dimensions
-  const imageWidth = image.width;
-  const imageHeight = image.height;
-  const canvasWidth = canvas.width;
-  const canvasHeight = canvas.height;
-  const padding =
-    depthDisplayMode === 'cutout' || depthDisplayMode === 'popout'
-      ? canvasWidth * 0.1
-      : 0;
-
-  // Calculate scale to fit the entire image
-  const scaleX = (canvasWidth - padding) / imageWidth;
-  const scaleY = (canvasHeight - padding) / imageHeight;
-  const scale = Math.min(scaleX, scaleY);
-
-  // Calculate centered position
-  const scaledWidth = imageWidth * scale;
-  const scaledHeight = imageHeight * scale;
-  const x = (canvasWidth - scaledWidth) / 2;
-  const y = (canvasHeight - scaledHeight) / 2;
-
-  if (depthDisplayMode === 'popout') {
-    ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  } else if (depthDisplayMode === 'cutout') {
-    ctx.fillStyle = 'white';
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  }
-
-  const originalGlobalCompositeOperation = ctx.globalCompositeOperation;
-
-  ctx.drawImage(image, x, y, scaledWidth, scaledHeight);
-
-  if (depthDisplayMode === 'clamp') {
-    // Extend the left edge of the image
-    ctx.drawImage(
-      image,
-      // sx,
-      0,
-      // sy,
-      y,
-      // sWidth,
-      1,
-      // sHeight,
-      imageHeight,
-      // dx,
-      0,
-      // dy,
-      0,
-      // dWidth,
-      x + 1,
-      // dHeight
-      canvasHeight,
-    );
+    try {
+      await openProject(file);
+    } catch (error) {
+      console.error(error);
+      hide('image-loader');
+      alert(error instanceof Error ? error.message : String(error));
+      show('image-chooser');
+      if (appState.currentDepth) {
+        appState.gui?.show();
+      }
+    }
+  });
 
-    // Extend the right edge of the image
-    ctx.drawImage(
-      image,
-      // sx,
-      imageWidth - 1,
-      // sy,
-      y,
-      // sWidth,
-      1,
-      // sHeight,
-      imageHeight,
-      // dx,
-      x + scaledWidth - 1,
-      // dy,
-      0,
-      // dWidth,
-      x + 1,
-      // dHeight
-      canvasHeight,
-    );
+  const messageButton = document.getElementById(
+    'message-button',
+  ) as HTMLButtonElement;
 
-    // Fade the left and right edges of the image with a horizontal gradient
-    // with a left, center, and right stop:
-    const gradient = ctx.createLinearGradient(0, 0, canvasWidth, 0);
-    gradient.addColorStop(0, '#555');
-    gradient.addColorStop(x / canvasWidth, 'white');
-    gradient.addColorStop((canvasWidth - x) / canvasWidth, 'white');
-    gradient.addColorStop(1, '#555');
+  // Start from a flat, far away depth with a message to edit
+  messageButton.addEventListener('click', async () => {
+    appState.gui?.hide();
+    hide('image-chooser');
 
-    ctx.fillStyle = gradient;
-    ctx.globalCompositeOperation = 'multiply';
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
-  }
+    const {outputWidth: width, outputHeight: height} = appState;
+    appState.loadedDepthMap = {
+      data: new Float32Array(width * height),
+      width,
+      height,
+    };
+    appState.loadedDepthColorImage = null;
+    if (appState.depthLayers.length === 0) {
+      appState.depthLayers.push({
+        kind: 'text',
+        text: 'HELLO',
+        font: DEPTH_LAYER_FONTS.Heavy,
+        x: 0.5,
+        y: 0.5,
+        depth: 0.8,
+        size: 0.3,
+      });
+      appState.updateDepthLayerControls?.();
+    }
 
-  // Reset blend mode to default
-  ctx.globalCompositeOperation = originalGlobalCompositeOperation;
+    const depth = applyLoadedDepthMap()!;
+    applyOutputSize();
+    await showDepthEstimation(depth);
+  });
 }
 
-/**
- * Fills the canvas with the image, as a repeating pattern
- */
-function fillImage(
-  image: HTMLCanvasElement | OffscreenCanvas,
-  canvas: HTMLCanvasElement | OffscreenCanvas,
-  /**
-   * The width of the tiles to use for the pattern; the height will be
-   * calculated to maintain the aspect ratio.
-   */
-  tileWidth: number,
-) {
-  const ctx = canvas.getContext('2d') as
-    | CanvasRenderingContext2D
-    | OffscreenCanvasRenderingContext2D;
-
-  // Calculate tile height to maintain aspect ratio
-  const tileHeight = (tileWidth * image.height) / image.width;
-
-  // Calculate how many tiles we need to fill the canvas
-  const tilesX = Math.ceil(canvas.width / tileWidth);
-  const tilesY = Math.ceil(canvas.height / tileHeight);
-
-  // Draw the image as a repeating pattern
-  for (let y = 0; y < tilesY; y++) {
-    for (let x = 0; x < tilesX; x++) {
-      ctx.drawImage(
-        image,
-        x * tileWidth,
-        y * tileHeight,
-        tileWidth,
-        tileHeight,
-      );
-    }
-  }
-}
+main();
 
 type UiElementId =
   | 'messages'
@@ -894,6 +2794,8 @@ type UiElementId =
   | 'image-chooser'
   | 'loading-depth-estimation'
   | 'generating-autostereogram'
+  | 'isolating-subject'
+  | 'generating-animation'
   | 'canvas'
   | 'depth-canvas'
   | 'viewing-tips-link'
@@ -910,6 +2812,232 @@ function show(id: UiElementId) {
   document.getElementById(id)!.hidden = false;
 }
 
+function setMessage(id: UiElementId, text: string) {
+  document.querySelector(`#${id} p`)!.textContent = text;
+}
+
+function setGenerationProgress(fraction: number) {
+  setMessage(
+    'generating-autostereogram',
+    `Generating autostereogram... ${Math.round(fraction * 100)}%`,
+  );
+}
+
+/**
+ * Writes the shareable settings to the URL hash, without adding to the history
+ */
+function updateUrlState(): void {
+  window.history.replaceState(
+    null,
+    '',
+    `#${formatUrlState(appState, URL_STATE_FIELDS)}`,
+  );
+}
+
+/**
+ * Applies settings from a link pasted into the address bar of an open page
+ */
+function handleHashChange(): void {
+  Object.assign(appState, readUrlState(window.location.hash, URL_STATE_FIELDS));
+  if (appState.selectedPattern !== 'custom') {
+    appState.customPatternFile = null;
+  }
+
+  appState.gui
+    ?.controllersRecursive()
+    .forEach((controller) => controller.updateDisplay());
+  appState.updatePatternControls?.();
+  updateViewingTipsLink();
+  regenerateDepthCanvas();
+}
+
+window.addEventListener('hashchange', handleHashChange);
+
+function getProjectSettings(): ProjectSettings {
+  return Object.fromEntries(
+    PROJECT_SETTINGS.map((key) => [key, appState[key]]),
+  ) as ProjectSettings;
+}
+
+/**
+ * Copies settings into the app state. Nested settings are copied into the
+ * existing objects, which the GUI controllers are bound to.
+ */
+function assignSettings(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+) {
+  const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      assignSettings(current, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Saves the photo, its depth, the custom pattern and all settings to one file
+ */
+async function saveProject(): Promise<void> {
+  const depth = appState.loadedDepthMap ?? appState.originalDepthEstimation;
+  if (!depth) {
+    return;
+  }
+
+  const photo = getSourcePhoto();
+  const edits = appState.depthEdits;
+  const project: Project<ProjectSettings> = {
+    format: 'magic-eye-anything-project',
+    version: PROJECT_VERSION,
+    settings: getProjectSettings(),
+    sourceImage: photo
+      ? await blobToDataUrl(
+          sourcePhotoFiles.get(photo) ?? (await photo.toBlob('image/png')),
+        )
+      : null,
+    depth: await encodeDepthMap(depth),
+    depthIsLoaded: appState.loadedDepthMap !== null,
+    customPattern: appState.customPatternFile
+      ? await blobToDataUrl(appState.customPatternFile)
+      : null,
+    depthEdits: edits
+      ? await encodeDepthMap({
+          data: edits.offsets.map((offset) => (offset + 1) / 2),
+          width: edits.width,
+          height: edits.height,
+        })
+      : null,
+    depthLayers: await Promise.all(
+      appState.depthLayers.map(async (layer) => {
+        if (layer.kind !== 'silhouette') {
+          return {...layer};
+        }
+        const canvas = new OffscreenCanvas(
+          layer.image.width,
+          layer.image.height,
+        );
+        canvas.getContext('2d')!.drawImage(layer.image, 0, 0);
+        return {
+          ...layer,
+          image: await blobToDataUrl(await canvas.convertToBlob()),
+        };
+      }),
+    ),
+  };
+
+  downloadBlob(
+    new Blob([JSON.stringify(project)], {type: 'application/json'}),
+    `autostereogram-${appState.seed}${PROJECT_FILE_EXTENSION}`,
+  );
+}
+
+/**
+ * Restores a saved project without running the depth model. Everything is read
+ * and checked before anything changes, so a broken project leaves the current
+ * one as it was.
+ */
+async function openProject(file: File): Promise<void> {
+  const project = await parseProject<unknown>(file);
+
+  appState.gui?.hide();
+  hide('image-chooser');
+  show('messages');
+  show('image-loader');
+
+  const settings = readSettings(project.settings, PROJECT_SETTING_FIELDS);
+  const savedPatternParams = (
+    project.settings as {patternParams?: Record<string, unknown>} | null
+  )?.patternParams;
+  settings.patternParams = Object.fromEntries(
+    getPatternGenerators()
+      .filter(({id}) => savedPatternParams?.[id] !== undefined)
+      .map((generator) => [
+        generator.id,
+        {
+          ...defaultPatternParams(generator),
+          ...readPatternParams(generator, savedPatternParams![generator.id]),
+        },
+      ]),
+  );
+
+  const customPatternFile = project.customPattern
+    ? new File([await dataUrlToBlob(project.customPattern)], 'pattern')
+    : null;
+  if (settings.selectedPattern === 'custom' && !customPatternFile) {
+    delete settings.selectedPattern;
+  }
+
+  const sourceImage = project.sourceImage
+    ? await loadPhoto(await dataUrlToBlob(project.sourceImage))
+    : null;
+  const depthMap = await decodeDepthMap(project.depth);
+
+  // Invalid layers, including silhouettes whose images don't load, are left out
+  const depthLayers = await Promise.all(
+    (Array.isArray(project.depthLayers) ? project.depthLayers : []).map(
+      async (value): Promise<DepthLayer | null> => {
+        const layer = parseDepthLayer(value);
+        if (layer?.kind !== 'silhouette') {
+          return layer ?? null;
+        }
+        try {
+          return {
+            ...layer,
+            image: await loadSilhouette(await dataUrlToBlob(layer.image)),
+          };
+        } catch {
+          return null;
+        }
+      },
+    ),
+  );
+
+  let depthEdits: DepthEdits | null = null;
+  if (project.depthEdits) {
+    const {data, width, height} = await decodeDepthMap(project.depthEdits);
+    depthEdits = new DepthEdits(width, height);
+    depthEdits.offsets.set(data.map((value) => value * 2 - 1));
+  }
+
+  assignSettings(appState, structuredClone(DEFAULT_PROJECT_SETTINGS));
+  assignSettings(appState, settings);
+  updateUrlState();
+  appState.customPatternFile = customPatternFile;
+  appState.depthLayers = depthLayers.filter((layer) => layer !== null);
+
+  let depth: DepthMap;
+  if (project.depthIsLoaded) {
+    appState.loadedDepthMap = depthMap;
+    appState.loadedDepthColorImage = sourceImage;
+    depth = applyLoadedDepthMap()!;
+  } else {
+    depth = depthMap;
+    appState.loadedDepthMap = null;
+    appState.loadedDepthColorImage = null;
+    appState.currentImage = sourceImage ?? depthMapToRawImage(depth);
+  }
+  hide('image-loader');
+
+  applyOutputSize();
+  appState.updateDepthLayerControls?.();
+  appState.updateDepthProcessingControls?.();
+  await showDepthEstimation(depth, depthEdits);
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 function debounce(func: () => void, delay: number) {
   let timeout: NodeJS.Timeout;
   return () => {
@@ -945,26 +3073,27 @@ document.addEventListener('click', (e: MouseEvent) => {
   }
 
   cancelFade();
+
+  // Clicks on the depth map paint while the brush is in use, and grab layers
+  if (
+    appState.displayMode === 'depth-map' &&
+    (appState.depthBrushEnabled || depthLayerAtPointer(e) !== -1)
+  ) {
+    return;
+  }
+
   if (
     e.target instanceof HTMLElement &&
     (e.target.getAttribute('id') === 'canvas' ||
       e.target.getAttribute('id') === 'depth-canvas')
   ) {
-    switch (appState.displayMode) {
-      case 'autostereogram': {
-        appState.displayMode = 'depth-map';
-        break;
-      }
-      case 'depth-map': {
-        appState.displayMode = 'source-image';
-        break;
-      }
-      case 'source-image': {
-        appState.displayMode = 'autostereogram';
-        break;
-      }
-    }
+    const index = DISPLAY_MODES.findIndex(
+      ({id}) => id === appState.displayMode,
+    );
+    appState.displayMode =
+      DISPLAY_MODES[(index + 1) % DISPLAY_MODES.length]!.id;
     updateCanvasDisplay();
+    updateUrlState();
   }
 });
 document.addEventListener('mousemove', cancelFade);
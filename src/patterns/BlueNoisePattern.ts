@@ -0,0 +1,97 @@
+import {createGradient, wrapped} from '../PatternGenerator';
+import {
+  PatternContext,
+  PatternParameterSchema,
+  PatternParams,
+  registerPatternGenerator,
+} from '../PatternRegistry';
+import {createRandom} from '../Random';
+
+const parameters = {
+  count: {
+    type: 'number',
+    label: 'Dots',
+    default: 1500,
+    min: 50,
+    max: 4000,
+    step: 10,
+  },
+  radius: {
+    type: 'number',
+    label: 'Radius',
+    default: 3,
+    min: 0.5,
+    max: 16,
+    step: 0.5,
+  },
+} as const satisfies PatternParameterSchema;
+
+// More candidates spread the dots more evenly, at a quadratic cost
+const CANDIDATES_PER_DOT = 10;
+
+/**
+ * Generates evenly spread, non-clumping dots (blue noise) over the gradient.
+ * Without clumps or regular rows there are no stripes for the eyes to lock on
+ * to at the wrong depth.
+ */
+function generateBlueNoisePattern(
+  {count, radius}: PatternParams<typeof parameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors}: PatternContext,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+
+  ctx.fillStyle = createGradient(ctx, height, random, ...gradientColors);
+  ctx.fillRect(0, 0, width, height);
+
+  // Mitchell's best-candidate algorithm: of a few random candidates, keep the
+  // one farthest from every dot so far, measuring across the wrapped edges
+  const dots: {x: number; y: number}[] = [];
+  for (let i = 0; i < count; i++) {
+    let best = {x: 0, y: 0};
+    let bestDistance = -1;
+
+    for (let c = 0; c < CANDIDATES_PER_DOT; c++) {
+      const candidate = {x: random() * width, y: random() * height};
+      let distance = Infinity;
+      for (const dot of dots) {
+        let dx = Math.abs(dot.x - candidate.x);
+        let dy = Math.abs(dot.y - candidate.y);
+        dx = Math.min(dx, width - dx);
+        dy = Math.min(dy, height - dy);
+        distance = Math.min(distance, dx * dx + dy * dy);
+      }
+      if (distance > bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    dots.push(best);
+  }
+
+  for (const {x, y} of dots) {
+    const color =
+      random() < 0.5 ? 'rgba(0, 0, 0, 0.55)' : 'rgba(255, 255, 255, 0.55)';
+
+    wrapped(ctx, width, height, (ctx) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+  }
+
+  return canvas;
+}
+
+registerPatternGenerator({
+  id: 'blue-noise',
+  label: 'Blue noise',
+  usesGradient: true,
+  parameters,
+  generate: generateBlueNoisePattern,
+});
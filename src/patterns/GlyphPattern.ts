@@ -0,0 +1,116 @@
+import {createGradient, wrapped} from '../PatternGenerator';
+import {
+  PatternContext,
+  PatternParameterSchema,
+  PatternParams,
+  registerPatternGenerator,
+} from '../PatternRegistry';
+import {createRandom} from '../Random';
+
+const parameters = {
+  text: {type: 'string', label: 'Text', default: 'MAGIC EYE'},
+  fontSize: {
+    type: 'number',
+    label: 'Font size',
+    default: 28,
+    min: 8,
+    max: 128,
+    step: 1,
+  },
+  jitter: {
+    type: 'number',
+    label: 'Jitter',
+    default: 0.5,
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+} as const satisfies PatternParameterSchema;
+
+/**
+ * Generates a mosaic of the given text, repeated row after row in random colors
+ * over the gradient
+ */
+function generateGlyphPattern(
+  {text, fontSize, jitter}: PatternParams<typeof parameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors, prefersDark}: PatternContext,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+
+  ctx.fillStyle = createGradient(ctx, height, random, ...gradientColors);
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.font = `800 ${fontSize}px "Arial Black", "Helvetica Black", "Helvetica Neue", Helvetica, Arial, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Zero-width glyphs (joiners, combining marks) would never advance along the
+  // row, so they are left out
+  const glyphs = [...text.replace(/\s+/g, ' ').trim()]
+    .map((glyph) => ({glyph, advance: ctx.measureText(glyph).width}))
+    .filter(({advance}) => advance > 0);
+  if (glyphs.length === 0) {
+    return canvas;
+  }
+
+  // Whole rows only, so the pattern repeats vertically without a seam
+  const rows = Math.max(1, Math.round(height / (fontSize * 1.2)));
+  const rowHeight = height / rows;
+  const shadowColor = prefersDark
+    ? 'rgba(255, 255, 255, 0.1)'
+    : 'rgba(0, 0, 0, 0.2)';
+
+  let glyphIndex = 0;
+  for (let row = 0; row < rows; row++) {
+    // Each row starts at a random offset and spans exactly one tile width, so
+    // glyphs wrapping past the right edge never overlap the row's start
+    const start = random() * width;
+    let x = start;
+
+    // At most one glyph per pixel, however narrow the glyphs measure
+    for (let count = 0; count < width; count++) {
+      const {glyph, advance} = glyphs[glyphIndex % glyphs.length]!;
+      if (x + advance > start + width) {
+        break;
+      }
+      glyphIndex++;
+
+      const centerX = x + advance / 2;
+      const centerY = (row + 0.5) * rowHeight;
+      const angle = (random() - 0.5) * jitter * (Math.PI / 2);
+      const hue = random() * 360;
+      const saturation = 50 + random() * 50;
+      const lightness = 40 + random() * 40;
+      x += advance;
+
+      if (glyph === ' ') {
+        continue;
+      }
+
+      wrapped(ctx, width, height, (ctx) => {
+        ctx.save();
+        ctx.translate(centerX, centerY);
+        ctx.rotate(angle);
+        ctx.fillStyle = shadowColor;
+        ctx.fillText(glyph, 2, 2);
+        ctx.fillStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+        ctx.fillText(glyph, 0, 0);
+        ctx.restore();
+      });
+    }
+  }
+
+  return canvas;
+}
+
+registerPatternGenerator({
+  id: 'glyphs',
+  label: 'Text mosaic',
+  usesGradient: true,
+  parameters,
+  generate: generateGlyphPattern,
+});
@@ -0,0 +1,108 @@
+import {createGradient} from '../PatternGenerator';
+import {
+  PatternContext,
+  PatternParameterSchema,
+  PatternParams,
+  registerPatternGenerator,
+} from '../PatternRegistry';
+import {createRandom} from '../Random';
+import {makeSeamless} from '../Seamless';
+
+const parameters = {
+  colors: {
+    type: 'number',
+    label: 'Colors per channel',
+    default: 5,
+    min: 2,
+    max: 16,
+    step: 1,
+  },
+  cellSize: {
+    type: 'number',
+    label: 'Cell size',
+    default: 4,
+    min: 1,
+    max: 32,
+    step: 1,
+  },
+} as const satisfies PatternParameterSchema;
+
+/**
+ * Generates a pattern from a random slice of the source photo, posterized and
+ * pixelated so that it reads as texture while keeping the photo's palette. The
+ * slice is mirrored to tile seamlessly.
+ */
+function generatePhotoPattern(
+  {colors, cellSize}: PatternParams<typeof parameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors, getSourceImage}: PatternContext,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+  const sourceImage = getSourceImage();
+
+  if (!sourceImage) {
+    ctx.fillStyle = createGradient(ctx, height, random, ...gradientColors);
+    ctx.fillRect(0, 0, width, height);
+    return canvas;
+  }
+
+  // Mirroring doubles the slice in both directions
+  const cellsX = Math.max(1, Math.round(width / 2 / cellSize));
+  const cellsY = Math.max(1, Math.round(height / 2 / cellSize));
+
+  // Take the tallest slice with the same aspect ratio as the cells
+  let sliceHeight = sourceImage.height;
+  let sliceWidth = (sliceHeight * cellsX) / cellsY;
+  if (sliceWidth > sourceImage.width) {
+    sliceWidth = sourceImage.width;
+    sliceHeight = (sliceWidth * cellsY) / cellsX;
+  }
+  const sliceX = random() * (sourceImage.width - sliceWidth);
+  const sliceY = random() * (sourceImage.height - sliceHeight);
+
+  const cells = new OffscreenCanvas(cellsX, cellsY);
+  const cellsCtx = cells.getContext('2d')!;
+  cellsCtx.drawImage(
+    sourceImage,
+    sliceX,
+    sliceY,
+    sliceWidth,
+    sliceHeight,
+    0,
+    0,
+    cellsX,
+    cellsY,
+  );
+
+  // Posterize each channel to a few levels
+  const imageData = cellsCtx.getImageData(0, 0, cellsX, cellsY);
+  const step = 255 / (colors - 1);
+  for (let i = 0; i < imageData.data.length; i++) {
+    if (i % 4 !== 3) {
+      imageData.data[i] = Math.round(imageData.data[i]! / step) * step;
+    }
+  }
+
+  const tile = makeSeamless(imageData, 'mirror');
+  const tileCanvas = new OffscreenCanvas(tile.width, tile.height);
+  tileCanvas
+    .getContext('2d')!
+    .putImageData(new ImageData(tile.data, tile.width, tile.height), 0, 0);
+
+  // Scale up without smoothing to keep the cells crisp
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(tileCanvas, 0, 0, width, height);
+
+  return canvas;
+}
+
+registerPatternGenerator({
+  id: 'photo',
+  label: 'Photo',
+  usesGradient: false,
+  parameters,
+  generate: generatePhotoPattern,
+});
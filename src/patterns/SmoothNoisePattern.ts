@@ -0,0 +1,132 @@
+import {fillGrayscale, overlayGradient} from '../PatternGenerator';
+import {
+  PatternContext,
+  PatternParameterSchema,
+  PatternParams,
+  registerPatternGenerator,
+} from '../PatternRegistry';
+import {createRandom, Random} from '../Random';
+
+const parameters = {
+  scale: {
+    type: 'number',
+    label: 'Cells across',
+    default: 6,
+    min: 1,
+    max: 64,
+    step: 1,
+  },
+  octaves: {
+    type: 'number',
+    label: 'Octaves',
+    default: 4,
+    min: 1,
+    max: 6,
+    step: 1,
+  },
+  contrast: {
+    type: 'number',
+    label: 'Contrast',
+    default: 1,
+    min: 0,
+    max: 2,
+    step: 0.01,
+  },
+} as const satisfies PatternParameterSchema;
+
+/**
+ * Creates 2D gradient (Perlin) noise on a lattice that repeats every `periodX`
+ * by `periodY` cells, so that it tiles seamlessly
+ */
+function createTileableNoise(
+  random: Random,
+  periodX: number,
+  periodY: number,
+): (x: number, y: number) => number {
+  const angles = new Float32Array(periodX * periodY);
+  for (let i = 0; i < angles.length; i++) {
+    angles[i] = random() * 2 * Math.PI;
+  }
+
+  const dotGradient = (ix: number, iy: number, dx: number, dy: number) => {
+    const wrappedX = ((ix % periodX) + periodX) % periodX;
+    const wrappedY = ((iy % periodY) + periodY) % periodY;
+    const angle = angles[wrappedY * periodX + wrappedX]!;
+    return Math.cos(angle) * dx + Math.sin(angle) * dy;
+  };
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+  return (x, y) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    const u = fade(fx);
+    const v = fade(fy);
+
+    return lerp(
+      lerp(dotGradient(x0, y0, fx, fy), dotGradient(x0 + 1, y0, fx - 1, fy), u),
+      lerp(
+        dotGradient(x0, y0 + 1, fx, fy - 1),
+        dotGradient(x0 + 1, y0 + 1, fx - 1, fy - 1),
+        u,
+      ),
+      v,
+    );
+  };
+}
+
+/**
+ * Generates smooth, cloudy gradient noise layered over several octaves, tinted
+ * by the gradient colors
+ */
+function generateSmoothNoisePattern(
+  {scale, octaves, contrast}: PatternParams<typeof parameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors}: PatternContext,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+
+  // Each octave doubles the lattice resolution, which keeps the periods whole
+  const periodX = scale;
+  const periodY = Math.max(1, Math.round((scale * height) / width));
+  const layers = Array.from({length: octaves}, (_, octave) => ({
+    noise: createTileableNoise(
+      random,
+      periodX * 2 ** octave,
+      periodY * 2 ** octave,
+    ),
+    frequency: 2 ** octave,
+    amplitude: 0.5 ** octave,
+  }));
+  const totalAmplitude = layers.reduce(
+    (sum, {amplitude}) => sum + amplitude,
+    0,
+  );
+
+  fillGrayscale(ctx, width, height, (x, y) => {
+    const u = (x / width) * periodX;
+    const v = (y / height) * periodY;
+    let value = 0;
+    for (const {noise, frequency, amplitude} of layers) {
+      value += noise(u * frequency, v * frequency) * amplitude;
+    }
+    return 0.5 + (value / totalAmplitude) * contrast;
+  });
+
+  overlayGradient(ctx, width, height, random, gradientColors);
+
+  return canvas;
+}
+
+registerPatternGenerator({
+  id: 'smooth-noise',
+  label: 'Smooth noise',
+  usesGradient: true,
+  parameters,
+  generate: generateSmoothNoisePattern,
+});
@@ -0,0 +1,155 @@
+import {fillGrayscale, overlayGradient} from '../PatternGenerator';
+import {
+  PatternContext,
+  PatternParameterSchema,
+  PatternParams,
+  registerPatternGenerator,
+} from '../PatternRegistry';
+import {createRandom} from '../Random';
+
+const parameters = {
+  count: {
+    type: 'number',
+    label: 'Cells',
+    default: 150,
+    min: 4,
+    max: 600,
+    step: 1,
+  },
+  edgeWidth: {
+    type: 'number',
+    label: 'Edge width',
+    default: 2,
+    min: 0,
+    max: 12,
+    step: 0.5,
+  },
+  contrast: {
+    type: 'number',
+    label: 'Contrast',
+    default: 0.8,
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+} as const satisfies PatternParameterSchema;
+
+/**
+ * Generates Voronoi cells of random shades with dark edges, tinted by the
+ * gradient colors. Distances wrap around the tile edges so it repeats
+ * seamlessly.
+ */
+function generateVoronoiPattern(
+  {count, edgeWidth, contrast}: PatternParams<typeof parameters>,
+  seed: number,
+  {width, height}: {width: number; height: number},
+  {gradientColors}: PatternContext,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const random = createRandom(seed);
+
+  const sites = Array.from({length: count}, () => ({
+    x: random() * width,
+    y: random() * height,
+    shade: 1 - contrast + random() * contrast,
+  }));
+
+  // Bucket the sites into a grid of about one site per cell, so each pixel only
+  // looks at the sites around it
+  const columns = Math.max(1, Math.round(Math.sqrt((count * width) / height)));
+  const rows = Math.max(1, Math.round(count / columns));
+  const cellWidth = width / columns;
+  const cellHeight = height / rows;
+  const cells = Array.from({length: columns * rows}, () => [] as typeof sites);
+  for (const site of sites) {
+    const column = Math.min(columns - 1, Math.floor(site.x / cellWidth));
+    const row = Math.min(rows - 1, Math.floor(site.y / cellHeight));
+    cells[row * columns + column]!.push(site);
+  }
+
+  // The offsets to search run over every column and row once, so that wrapping
+  // never visits a cell twice
+  const minColumnOffset = -Math.floor((columns - 1) / 2);
+  const maxColumnOffset = columns - 1 + minColumnOffset;
+  const minRowOffset = -Math.floor((rows - 1) / 2);
+  const maxRowOffset = rows - 1 + minRowOffset;
+  const maxRing = Math.max(
+    -minColumnOffset,
+    maxColumnOffset,
+    -minRowOffset,
+    maxRowOffset,
+  );
+
+  fillGrayscale(ctx, width, height, (x, y) => {
+    let nearest = Infinity;
+    let secondNearest = Infinity;
+    let shade = 0;
+
+    const column = Math.min(columns - 1, Math.floor(x / cellWidth));
+    const row = Math.min(rows - 1, Math.floor(y / cellHeight));
+
+    // Search rings of cells outwards until every site beyond the rings searched
+    // so far is farther than the two nearest found
+    for (let ring = 0; ring <= maxRing; ring++) {
+      const outside = Math.min(
+        x - (column - ring + 1) * cellWidth,
+        (column + ring) * cellWidth - x,
+        y - (row - ring + 1) * cellHeight,
+        (row + ring) * cellHeight - y,
+      );
+      if (secondNearest <= outside) {
+        break;
+      }
+
+      for (
+        let rowOffset = Math.max(-ring, minRowOffset);
+        rowOffset <= Math.min(ring, maxRowOffset);
+        rowOffset++
+      ) {
+        for (
+          let columnOffset = Math.max(-ring, minColumnOffset);
+          columnOffset <= Math.min(ring, maxColumnOffset);
+          columnOffset++
+        ) {
+          if (Math.max(Math.abs(rowOffset), Math.abs(columnOffset)) !== ring) {
+            continue;
+          }
+          const cellRow = (row + rowOffset + rows) % rows;
+          const cellColumn = (column + columnOffset + columns) % columns;
+
+          for (const site of cells[cellRow * columns + cellColumn]!) {
+            let dx = Math.abs(site.x - x);
+            let dy = Math.abs(site.y - y);
+            dx = Math.min(dx, width - dx);
+            dy = Math.min(dy, height - dy);
+            const distance = Math.sqrt(dx * dx + dy * dy);
+
+            if (distance < nearest) {
+              secondNearest = nearest;
+              nearest = distance;
+              shade = site.shade;
+            } else if (distance < secondNearest) {
+              secondNearest = distance;
+            }
+          }
+        }
+      }
+    }
+
+    // Points about equally far from two sites lie on an edge
+    return secondNearest - nearest < edgeWidth ? 0 : shade * 0.7;
+  });
+
+  overlayGradient(ctx, width, height, random, gradientColors);
+
+  return canvas;
+}
+
+registerPatternGenerator({
+  id: 'voronoi',
+  label: 'Voronoi',
+  usesGradient: true,
+  parameters,
+  generate: generateVoronoiPattern,
+});
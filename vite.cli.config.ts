@@ -0,0 +1,19 @@
+import {defineConfig} from 'vite';
+
+// Bundles the command-line renderer for Node. Dependencies are loaded from
+// node_modules, apart from CommonJS ones that are imported as namespaces.
+export default defineConfig({
+  publicDir: false,
+  ssr: {noExternal: ['upng-js']},
+  build: {
+    ssr: 'src/cli.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'magic-eye.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});